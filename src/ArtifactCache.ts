@@ -0,0 +1,133 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { UserCodeLibrary } from './UserCodeLibrary.js';
+import { CacheItem, getStorableCacheItem } from './CacheItem.js';
+import type { UserCodeProject } from './UserCodeRunner.js';
+import type { GlobalsPreset } from './globalsPresets.js';
+import { createCompilerOptions, getCompilerOptionsKey } from './compilerOptions.js';
+import { DEFAULT_EXPORT_NAME } from './executionHarness.js';
+
+// Storage for compiled user code, consulted by `UserCodeRunner.executeUserCode` before compiling
+export interface ArtifactCache {
+	get(key: string): Promise<CacheItem | undefined>;
+	set(key: string, cacheItem: CacheItem): Promise<void>;
+}
+
+// Key compiled artifacts by everything that affects the output of `UserCodeRunner.preProcess`
+export function createArtifactCacheKey(
+	userCode: string | UserCodeProject,
+	outputType: string,
+	argsTypes: string[],
+	additionalSourceFiles: ts.SourceFile[] | UserCodeLibrary,
+	compilerOptions?: ts.CompilerOptions,
+	exportName?: string,
+	validateOutput?: boolean,
+	validateArgs?: boolean,
+	globals?: GlobalsPreset,
+	diagnosticCategoryOverrides?: { [errorCode: number]: ts.DiagnosticCategory },
+): string {
+	const library =
+		additionalSourceFiles instanceof UserCodeLibrary
+			? additionalSourceFiles
+			: UserCodeLibrary.new(additionalSourceFiles);
+	return crypto
+		.createHash('sha256')
+		.update(
+			JSON.stringify([
+				ts.version,
+				typeof userCode === 'string'
+					? userCode
+					: [userCode.entryPoint, Object.entries(userCode.files).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))],
+				outputType,
+				argsTypes,
+				library.contentHash,
+				getCompilerOptionsKey(createCompilerOptions(compilerOptions)),
+				// Keys of the default export are unchanged from before exports could be chosen
+				...(exportName !== undefined && exportName !== DEFAULT_EXPORT_NAME ? [exportName] : []),
+				...(validateOutput ? [{ validateOutput }] : []),
+				...(validateArgs ? [{ validateArgs }] : []),
+				...(globals !== undefined ? [{ globals }] : []),
+				// An override can turn an error into a warning, the artifacts of such a compile are not for other runners
+				...(diagnosticCategoryOverrides !== undefined && Object.keys(diagnosticCategoryOverrides).length > 0
+					? [
+							{
+								diagnosticCategoryOverrides: Object.entries(diagnosticCategoryOverrides).sort(
+									([a], [b]) => Number(a) - Number(b),
+								),
+							},
+					  ]
+					: []),
+			]),
+		)
+		.digest('hex');
+}
+
+// Keeps the most recently used artifacts in memory
+export class InMemoryArtifactCache implements ArtifactCache {
+	private readonly entries = new Map<string, CacheItem>();
+
+	constructor(private readonly maxEntries: number = 100) {
+		if (maxEntries < 1) {
+			throw new Error(`InMemoryArtifactCache maxEntries must be at least 1, but was: ${maxEntries}`);
+		}
+	}
+
+	public get size(): number {
+		return this.entries.size;
+	}
+
+	public async get(key: string): Promise<CacheItem | undefined> {
+		const cacheItem = this.entries.get(key);
+		if (cacheItem !== undefined) {
+			// Map iteration order is insertion order, so re-inserting marks the entry as most recently used
+			this.entries.delete(key);
+			this.entries.set(key, cacheItem);
+		}
+		return cacheItem;
+	}
+
+	public async set(key: string, cacheItem: CacheItem): Promise<void> {
+		this.entries.delete(key);
+		this.entries.set(key, cacheItem);
+		while (this.entries.size > this.maxEntries) {
+			this.entries.delete(this.entries.keys().next().value);
+		}
+	}
+}
+
+// Persists artifacts as one JSON file per key in a directory
+export class DirectoryArtifactCache implements ArtifactCache {
+	constructor(private readonly directory: string) {}
+
+	public async get(key: string): Promise<CacheItem | undefined> {
+		let contents: string;
+		try {
+			contents = await fs.promises.readFile(this.pathFor(key), 'utf8');
+		} catch (error: any) {
+			if (error.code === 'ENOENT') {
+				return undefined;
+			}
+			throw error;
+		}
+		try {
+			return JSON.parse(contents) as CacheItem;
+		} catch {
+			// A partially written or corrupted entry is a miss, it is overwritten by the next set
+			return undefined;
+		}
+	}
+
+	public async set(key: string, cacheItem: CacheItem): Promise<void> {
+		await fs.promises.mkdir(this.directory, { recursive: true });
+		// Write to a temporary file first so concurrent readers never see a partial entry
+		const temporaryPath = `${this.pathFor(key)}.${process.pid}.${crypto.randomUUID()}.tmp`;
+		await fs.promises.writeFile(temporaryPath, JSON.stringify(getStorableCacheItem(cacheItem)), 'utf8');
+		await fs.promises.rename(temporaryPath, this.pathFor(key));
+	}
+
+	private pathFor(key: string): string {
+		return path.join(this.directory, `${key}.json`);
+	}
+}
@@ -0,0 +1,262 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import ts from 'typescript';
+import { SourceMapConsumer } from 'source-map';
+import type { UserCodeError, UserCodeLocation } from './UserCodeRunner.js';
+import type { ValueSchema } from './valueValidation.js';
+import type { GlobalsPreset } from './globalsPresets.js';
+import { getProjectModuleName, removeExt, USER_CODE_FILENAME } from './executionHarness.js';
+
+// Bump whenever the shape of CacheItem or the execution harness changes incompatibly
+export const CACHE_ITEM_FORMAT_VERSION = 1;
+
+export const RUNNER_VERSION: string = JSON.parse(
+	fs.readFileSync(new URL('../package.json', import.meta.url), 'utf8'),
+).version;
+
+export interface CacheItemSignature {
+	outputType: string;
+	argsTypes: string[];
+	exportName?: string; // Export of the user code the harness calls, absent for the default export
+}
+
+export interface CacheItemMetadata {
+	formatVersion: number;
+	typescriptVersion: string;
+	runnerVersion: string;
+	// Hash of the names and contents of the additional source files
+	libraryHash: string;
+	signature: CacheItemSignature;
+	// Hash over the metadata above and the compiled artifacts
+	contentHash: string;
+}
+
+export interface CacheItem {
+	jsFileMap: { [key: string]: string };
+	userCodeSourceMap: string;
+	// File name of the entry point and source maps of the other user files, when the user code is a project
+	entryPoint?: string;
+	userFileSourceMaps?: { [fileName: string]: string };
+	// Source maps of the emitted additional source files, when any of them emit code
+	librarySourceMaps?: { [fileName: string]: string };
+	// Shape returned values are checked against, when compiled with validateOutput
+	outputSchema?: ValueSchema;
+	// Shape the arguments of the host are checked against, when compiled with validateArgs
+	argsSchema?: ValueSchema;
+	// Preset of the globals the user code was compiled against and runs with, when the runner has one
+	globals?: GlobalsPreset;
+	metadata?: CacheItemMetadata;
+	// Warnings and suggestions of the compile that produced the artifacts, they are not stored with the artifacts
+	warnings?: UserCodeError[];
+}
+
+// The part of a cache item that is written to storage
+export function getStorableCacheItem(cacheItem: CacheItem): CacheItem {
+	const { warnings, ...storableCacheItem } = cacheItem;
+	return storableCacheItem;
+}
+
+export function createCacheItemMetadata(
+	artifacts: HashedArtifacts,
+	signature: CacheItemSignature,
+	libraryHash: string,
+): CacheItemMetadata {
+	const metadata: Omit<CacheItemMetadata, 'contentHash'> = {
+		formatVersion: CACHE_ITEM_FORMAT_VERSION,
+		typescriptVersion: ts.version,
+		runnerVersion: RUNNER_VERSION,
+		libraryHash,
+		signature,
+	};
+	return {
+		...metadata,
+		contentHash: computeContentHash(artifacts, metadata),
+	};
+}
+
+// Source maps of the user and library files by the module names they run as, with the file names of a project
+export type ArtifactSourceMaps = Map<string, { fileName?: string; sourceMap: SourceMapConsumer; library?: boolean }>;
+
+export async function createArtifactSourceMaps(cacheItem: CacheItem): Promise<ArtifactSourceMaps> {
+	const sourceMaps: ArtifactSourceMaps = new Map([
+		[
+			USER_CODE_FILENAME,
+			{ fileName: cacheItem.entryPoint, sourceMap: await new SourceMapConsumer(cacheItem.userCodeSourceMap) },
+		],
+	]);
+	for (const [fileName, sourceMap] of Object.entries(cacheItem.userFileSourceMaps ?? {})) {
+		sourceMaps.set(getProjectModuleName(cacheItem.entryPoint!, fileName), {
+			fileName,
+			sourceMap: await new SourceMapConsumer(sourceMap),
+		});
+	}
+	for (const [fileName, sourceMap] of Object.entries(cacheItem.librarySourceMaps ?? {})) {
+		sourceMaps.set(removeExt(fileName), { fileName, sourceMap: await new SourceMapConsumer(sourceMap), library: true });
+	}
+	return sourceMaps;
+}
+
+// Original location of a position in the JS a module of the artifacts runs as
+export function getOriginalLocation(
+	sourceMaps: ArtifactSourceMaps,
+	moduleName: string,
+	line: number,
+	column: number,
+): UserCodeLocation {
+	const { fileName, sourceMap } = sourceMaps.get(moduleName)!;
+	const originalPosition = sourceMap.originalPositionFor({ line, column });
+	return {
+		line: originalPosition.line!,
+		column: originalPosition.column!,
+		...(fileName !== undefined ? { fileName } : {}),
+	};
+}
+
+// Free the memory of the parsed source maps, the consumers can not be used afterwards
+export function destroyArtifactSourceMaps(sourceMaps: ArtifactSourceMaps): void {
+	for (const { sourceMap } of sourceMaps.values()) {
+		sourceMap.destroy();
+	}
+}
+
+// Describe why a cache item can not be executed by this runner, or undefined when it can
+export function findCacheItemProblem(cacheItem: CacheItem, expectedSignature?: CacheItemSignature): string | undefined {
+	const metadata = cacheItem.metadata;
+	if (metadata === undefined) {
+		return 'Artifact has no metadata';
+	}
+	if (typeof metadata !== 'object' || metadata === null) {
+		return 'Artifact metadata is malformed, it must be an object';
+	}
+	if (metadata.formatVersion !== CACHE_ITEM_FORMAT_VERSION) {
+		return `Artifact format version ${metadata.formatVersion} is not supported, expected ${CACHE_ITEM_FORMAT_VERSION}`;
+	}
+	const shapeProblem = findCacheItemShapeProblem(cacheItem, metadata);
+	if (shapeProblem !== undefined) {
+		return `Artifact is malformed, ${shapeProblem}`;
+	}
+	if (metadata.typescriptVersion !== ts.version) {
+		return `Artifact was compiled with TypeScript ${metadata.typescriptVersion}, but the runner uses ${ts.version}`;
+	}
+	if (metadata.runnerVersion !== RUNNER_VERSION) {
+		return `Artifact was compiled by runner ${metadata.runnerVersion}, but the runner is ${RUNNER_VERSION}`;
+	}
+	const { contentHash, ...hashedMetadata } = metadata;
+	if (computeContentHash(cacheItem, hashedMetadata) !== contentHash) {
+		return 'Artifact content hash does not match its contents';
+	}
+	if (
+		expectedSignature !== undefined &&
+		JSON.stringify([metadata.signature.outputType, metadata.signature.argsTypes]) !==
+			JSON.stringify([expectedSignature.outputType, expectedSignature.argsTypes])
+	) {
+		return `Artifact was compiled for the signature "(...args: [${metadata.signature.argsTypes.join(', ')}]) => ${
+			metadata.signature.outputType
+		}", expected "(...args: [${expectedSignature.argsTypes.join(', ')}]) => ${expectedSignature.outputType}"`;
+	}
+	if (
+		expectedSignature !== undefined &&
+		(metadata.signature.exportName ?? 'default') !== (expectedSignature.exportName ?? 'default')
+	) {
+		return `Artifact was compiled for the export "${metadata.signature.exportName ?? 'default'}", expected "${
+			expectedSignature.exportName ?? 'default'
+		}"`;
+	}
+	return undefined;
+}
+
+// Stored artifacts can have any shape, the parts that are read and hashed are checked before reading them
+function findCacheItemShapeProblem(cacheItem: CacheItem, metadata: CacheItemMetadata): string | undefined {
+	if (!isStringRecord(cacheItem.jsFileMap)) {
+		return 'jsFileMap must be an object of strings';
+	}
+	if (typeof cacheItem.userCodeSourceMap !== 'string') {
+		return 'userCodeSourceMap must be a string';
+	}
+	for (const name of ['entryPoint', 'globals'] as const) {
+		if (cacheItem[name] !== undefined && typeof cacheItem[name] !== 'string') {
+			return `${name} must be a string`;
+		}
+	}
+	for (const name of ['userFileSourceMaps', 'librarySourceMaps'] as const) {
+		if (cacheItem[name] !== undefined && !isStringRecord(cacheItem[name])) {
+			return `${name} must be an object of strings`;
+		}
+	}
+	for (const name of ['outputSchema', 'argsSchema'] as const) {
+		if (cacheItem[name] !== undefined && (typeof cacheItem[name] !== 'object' || cacheItem[name] === null)) {
+			return `${name} must be an object`;
+		}
+	}
+	for (const name of ['typescriptVersion', 'runnerVersion', 'libraryHash', 'contentHash'] as const) {
+		if (typeof metadata[name] !== 'string') {
+			return `metadata.${name} must be a string`;
+		}
+	}
+	const signature = metadata.signature;
+	if (typeof signature !== 'object' || signature === null) {
+		return 'metadata.signature must be an object';
+	}
+	if (typeof signature.outputType !== 'string') {
+		return 'metadata.signature.outputType must be a string';
+	}
+	if (!Array.isArray(signature.argsTypes) || !signature.argsTypes.every(argsType => typeof argsType === 'string')) {
+		return 'metadata.signature.argsTypes must be an array of strings';
+	}
+	if (signature.exportName !== undefined && typeof signature.exportName !== 'string') {
+		return 'metadata.signature.exportName must be a string';
+	}
+	return undefined;
+}
+
+function isStringRecord(value: unknown): value is { [key: string]: string } {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		!Array.isArray(value) &&
+		Object.values(value).every(entry => typeof entry === 'string')
+	);
+}
+
+type HashedArtifacts = Pick<
+	CacheItem,
+	| 'jsFileMap'
+	| 'userCodeSourceMap'
+	| 'entryPoint'
+	| 'userFileSourceMaps'
+	| 'librarySourceMaps'
+	| 'outputSchema'
+	| 'argsSchema'
+	| 'globals'
+>;
+
+function computeContentHash(artifacts: HashedArtifacts, metadata: Omit<CacheItemMetadata, 'contentHash'>): string {
+	return crypto
+		.createHash('sha256')
+		.update(
+			JSON.stringify([
+				metadata.formatVersion,
+				metadata.typescriptVersion,
+				metadata.runnerVersion,
+				metadata.libraryHash,
+				metadata.signature.outputType,
+				metadata.signature.argsTypes,
+				...(metadata.signature.exportName !== undefined ? [metadata.signature.exportName] : []),
+				sortEntries(artifacts.jsFileMap),
+				artifacts.userCodeSourceMap,
+				// Only projects hash their other files, keeping the hashes of single file artifacts unchanged
+				...(artifacts.userFileSourceMaps !== undefined
+					? [artifacts.entryPoint, sortEntries(artifacts.userFileSourceMaps)]
+					: []),
+				...(artifacts.librarySourceMaps !== undefined ? [{ library: sortEntries(artifacts.librarySourceMaps) }] : []),
+				...(artifacts.outputSchema !== undefined ? [{ outputSchema: artifacts.outputSchema }] : []),
+				...(artifacts.argsSchema !== undefined ? [{ argsSchema: artifacts.argsSchema }] : []),
+				...(artifacts.globals !== undefined ? [{ globals: artifacts.globals }] : []),
+			]),
+		)
+		.digest('hex');
+}
+
+function sortEntries(map: { [key: string]: string }): [string, string][] {
+	return Object.entries(map).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+}
@@ -0,0 +1,107 @@
+import crypto from 'crypto';
+import { createArtifactSourceMaps, destroyArtifactSourceMaps } from './CacheItem.js';
+import type { CacheItem, ArtifactSourceMaps } from './CacheItem.js';
+
+interface SourceMapCacheEntry {
+	sourceMaps: Promise<ArtifactSourceMaps>;
+	users: number; // Errors being mapped with the source maps right now
+	released: boolean;
+}
+
+/**
+ * Parsed source maps of compiled user code, kept per artifact so that runtime errors do not parse them again.
+ *
+ * Parsed source maps hold WASM memory until they are destroyed. The cache destroys the source maps of the least
+ * recently used artifacts beyond its size and of released artifacts, as soon as no error is being mapped with them.
+ */
+export class SourceMapCache {
+	private readonly entries = new Map<string, SourceMapCacheEntry>();
+
+	constructor(private readonly maxEntries: number = 100) {
+		if (maxEntries < 1) {
+			throw new Error(`SourceMapCache maxEntries must be at least 1, but was: ${maxEntries}`);
+		}
+	}
+
+	public get size(): number {
+		return this.entries.size;
+	}
+
+	// Map with the parsed source maps of the cache item, they are only valid until the callback returns
+	public async use<T>(cacheItem: CacheItem, callback: (sourceMaps: ArtifactSourceMaps) => T): Promise<T> {
+		const key = getSourceMapCacheKey(cacheItem);
+		let entry = this.entries.get(key);
+		if (entry !== undefined) {
+			// Map iteration order is insertion order, so re-inserting marks the entry as most recently used
+			this.entries.delete(key);
+		} else {
+			const newEntry = { sourceMaps: createArtifactSourceMaps(cacheItem), users: 0, released: false };
+			// Source maps that fail to parse are not kept, the next use parses them again
+			newEntry.sourceMaps.catch(() => {
+				if (this.entries.get(key) === newEntry) {
+					this.entries.delete(key);
+				}
+			});
+			entry = newEntry;
+		}
+		this.entries.set(key, entry);
+		entry.users++;
+		if (this.entries.size > this.maxEntries) {
+			const [oldestKey, oldestEntry] = this.entries.entries().next().value!;
+			this.entries.delete(oldestKey);
+			releaseEntry(oldestEntry);
+		}
+
+		try {
+			return callback(await entry.sourceMaps);
+		} finally {
+			entry.users--;
+			if (entry.released) {
+				releaseEntry(entry);
+			}
+		}
+	}
+
+	// Destroy the source maps of the cache item, they are parsed again when it is used next
+	public release(cacheItem: CacheItem): void {
+		const key = getSourceMapCacheKey(cacheItem);
+		const entry = this.entries.get(key);
+		if (entry !== undefined) {
+			this.entries.delete(key);
+			releaseEntry(entry);
+		}
+	}
+
+	// Destroy the source maps of all cache items
+	public clear(): void {
+		for (const entry of this.entries.values()) {
+			releaseEntry(entry);
+		}
+		this.entries.clear();
+	}
+}
+
+function releaseEntry(entry: SourceMapCacheEntry): void {
+	entry.released = true;
+	if (entry.users === 0) {
+		entry.sourceMaps.then(destroyArtifactSourceMaps, () => {});
+	}
+}
+
+// Artifacts from preProcess are identified by their content hash, others by their source maps
+function getSourceMapCacheKey(cacheItem: CacheItem): string {
+	return (
+		cacheItem.metadata?.contentHash ??
+		crypto
+			.createHash('sha256')
+			.update(
+				JSON.stringify([
+					cacheItem.userCodeSourceMap,
+					cacheItem.entryPoint ?? null,
+					cacheItem.userFileSourceMaps ?? null,
+					cacheItem.librarySourceMaps ?? null,
+				]),
+			)
+			.digest('hex')
+	);
+}
@@ -0,0 +1,167 @@
+import vm from 'vm';
+import util from 'util';
+import { parse } from 'stack-trace';
+import { getOriginalLocation } from './CacheItem.js';
+import type { ArtifactSourceMaps } from './CacheItem.js';
+import type { UserCodeLocation } from './UserCodeRunner.js';
+
+export type UserCodeConsoleLevel = 'log' | 'warn' | 'error' | 'debug';
+
+export interface UserCodeConsoleEntry {
+	timestamp: number; // Milliseconds since the epoch when the user code logged the entry
+	level: UserCodeConsoleLevel;
+	message: string;
+	location?: UserCodeLocation; // Where in the user code the entry was logged, unknown for entries logged by library code
+}
+
+export interface UserCodeConsoleOptions {
+	maxEntries?: number; // Entries kept before further entries are dropped, defaults to 1000
+	maxBytes?: number; // UTF-8 bytes of the messages kept before further entries are dropped, defaults to 1MiB
+}
+
+// An entry with the stack frames it was logged from, until they are mapped through the source maps of the artifacts
+export interface CapturedConsoleEntry extends UserCodeConsoleEntry {
+	frames?: { fileName: string; line: number; column: number }[];
+}
+
+// Builds the console in the realm of the context, so that user code can not reach functions of the host through it
+const consoleFactoryScript = new vm.Script(`
+(sink) => {
+	const method = level => function (...args) {
+		sink(level, args);
+	};
+	return { log: method('log'), warn: method('warn'), error: method('error'), debug: method('debug') };
+}
+`);
+
+// Frames of the host and of library code come before the frame of the user code that logged, so keep more than the default 10
+function captureStack(): Error {
+	const stackTraceLimit = Error.stackTraceLimit;
+	Error.stackTraceLimit = 100;
+	try {
+		return new Error();
+	} finally {
+		Error.stackTraceLimit = stackTraceLimit;
+	}
+}
+
+/**
+ * Console output of user code, captured from the `console` installed in the context of its executions.
+ *
+ * Pass the same console to any number of executions to collect their entries, entries are kept on success and on
+ * failure. Entries of executions running at the same time interleave, give each of them a console of its own to tell
+ * their entries apart. Entries beyond the caps on their number and size are dropped and counted.
+ */
+export class UserCodeConsole {
+	private readonly captured: CapturedConsoleEntry[] = [];
+	private bytes = 0;
+	private dropped = 0;
+
+	protected constructor(public readonly maxEntries: number, public readonly maxBytes: number) {}
+
+	public get entries(): UserCodeConsoleEntry[] {
+		return this.captured.map(({ frames, ...entry }) => entry);
+	}
+
+	// Entries that were not kept because of the caps
+	public get droppedEntries(): number {
+		return this.dropped;
+	}
+
+	public clear(): void {
+		this.captured.length = 0;
+		this.bytes = 0;
+		this.dropped = 0;
+	}
+
+	// Define `console` in the context, before the user code runs in it
+	public install(context: vm.Context): void {
+		context.console = consoleFactoryScript.runInContext(context)((level: UserCodeConsoleLevel, args: unknown[]) => {
+			// Errors of the host must not reach the user code
+			try {
+				this.capture(level, args, captureStack());
+			} catch {
+				this.dropped++;
+			}
+		});
+	}
+
+	// Keep entries captured elsewhere, such as in a worker thread, within the caps of this console
+	public append(entries: CapturedConsoleEntry[], droppedEntries: number = 0): void {
+		this.dropped += droppedEntries;
+		for (const entry of entries) {
+			this.keep(entry);
+		}
+	}
+
+	// Entries captured since the last call, with the number of entries dropped since then
+	public take(): { entries: CapturedConsoleEntry[]; droppedEntries: number } {
+		const taken = { entries: [...this.captured], droppedEntries: this.dropped };
+		this.clear();
+		return taken;
+	}
+
+	// Map the stack frames of the entries that do not have a location yet to the user files
+	public locate(sourceMaps: ArtifactSourceMaps): void {
+		for (const entry of this.captured) {
+			const frame = entry.frames?.find(frame => {
+				const sourceMap = sourceMaps.get(frame.fileName);
+				return sourceMap !== undefined && sourceMap.library !== true;
+			});
+			if (frame !== undefined) {
+				entry.location = getOriginalLocation(sourceMaps, frame.fileName, frame.line, frame.column);
+			}
+			delete entry.frames;
+		}
+	}
+
+	// Whether any entry still has to be located
+	public get unlocated(): boolean {
+		return this.captured.some(entry => entry.frames !== undefined);
+	}
+
+	public static new(options?: UserCodeConsoleOptions): UserCodeConsole {
+		const { maxEntries = 1000, maxBytes = 1024 * 1024 } = options ?? {};
+		if (!Number.isInteger(maxEntries) || maxEntries < 0) {
+			throw new Error(`UserCodeConsole maxEntries must be an integer of at least 0, but was: ${maxEntries}`);
+		}
+		if (!(maxBytes >= 0)) {
+			throw new Error(`UserCodeConsole maxBytes must be at least 0, but was: ${maxBytes}`);
+		}
+		return new UserCodeConsole(maxEntries, maxBytes);
+	}
+
+	private capture(level: UserCodeConsoleLevel, args: unknown[], error: Error): void {
+		if (this.captured.length >= this.maxEntries) {
+			this.dropped++;
+			return;
+		}
+		const formatArgs: unknown[] = [];
+		for (let index = 0; index < args.length; index++) {
+			formatArgs.push(args[index]);
+		}
+		this.keep({
+			timestamp: Date.now(),
+			level,
+			// Inspecting must not run code of the user code, such as custom inspect functions and proxy traps
+			message: util.formatWithOptions({ customInspect: false, showProxy: true, depth: 4 }, ...formatArgs),
+			frames: parse(error)
+				.filter(frame => frame.getFileName() !== null && frame.getLineNumber() !== null)
+				.map(frame => ({
+					fileName: frame.getFileName(),
+					line: frame.getLineNumber(),
+					column: frame.getColumnNumber(),
+				})),
+		});
+	}
+
+	private keep(entry: CapturedConsoleEntry): void {
+		const bytes = Buffer.byteLength(entry.message);
+		if (this.captured.length >= this.maxEntries || this.bytes + bytes > this.maxBytes) {
+			this.dropped++;
+			return;
+		}
+		this.bytes += bytes;
+		this.captured.push(entry);
+	}
+}
@@ -0,0 +1,203 @@
+import ts from 'typescript';
+import { UserCodeLibrary } from './UserCodeLibrary.js';
+import { createCompilerOptions } from './compilerOptions.js';
+import {
+	createExecutionHarnessSource,
+	DEFAULT_EXPORT_NAME,
+	EXECUTION_HARNESS_FILENAME,
+	isModuleDirectory,
+	removeExt,
+	USER_CODE_FILENAME,
+} from './executionHarness.js';
+
+export interface UserCodeLanguageServiceOptions {
+	outputType?: string; // Return type of the default export, defaults to 'any'
+	argsTypes?: string[]; // Parameter types of the default export, defaults to ['any']
+	additionalSourceFiles?: ts.SourceFile[] | UserCodeLibrary; // Files the user code can import, or a shared library of them
+	compilerOptions?: ts.CompilerOptions; // Merged over DEFAULT_COMPILER_OPTIONS like the compiler options of a runner
+	exportName?: string; // Export of the user code that is called, defaults to the default export
+}
+
+/**
+ * Editor features for user code, answered against the same files, harness and compiler options as `preProcess`.
+ *
+ * Offsets are positions in the user code. The service keeps the program of the last request, so consecutive requests
+ * on slightly different user code only recheck what changed.
+ */
+export class UserCodeLanguageService {
+	private readonly files = new Map<string, { text: string; version: number }>();
+	private readonly languageService: ts.LanguageService;
+	private readonly compilerOptions: ts.CompilerOptions;
+
+	protected constructor(
+		additionalSourceFiles: readonly ts.SourceFile[],
+		outputType: string,
+		argsTypes: string[],
+		compilerOptions: ts.CompilerOptions,
+		private readonly exportName: string,
+	) {
+		for (const sourceFile of additionalSourceFiles) {
+			this.files.set(removeExt(sourceFile.fileName), { text: sourceFile.text, version: 0 });
+		}
+		this.files.set(EXECUTION_HARNESS_FILENAME, {
+			text: createExecutionHarnessSource(additionalSourceFiles, outputType, argsTypes, exportName),
+			version: 0,
+		});
+		this.files.set(USER_CODE_FILENAME, { text: '', version: 0 });
+		this.compilerOptions = compilerOptions;
+
+		const rootFileNames = [...additionalSourceFiles.map(f => f.fileName), `${EXECUTION_HARNESS_FILENAME}.ts`];
+		const host: ts.LanguageServiceHost = {
+			getCompilationSettings: () => compilerOptions,
+			getScriptFileNames: () => rootFileNames,
+			getScriptVersion: fileName => String(this.files.get(removeExt(fileName))?.version ?? 0),
+			getScriptSnapshot: fileName => {
+				const file = this.files.get(removeExt(fileName));
+				if (file !== undefined) {
+					return ts.ScriptSnapshot.fromString(file.text);
+				}
+				const text = ts.sys.readFile(fileName);
+				return text !== undefined ? ts.ScriptSnapshot.fromString(text) : undefined;
+			},
+			getCurrentDirectory: () => '',
+			getDefaultLibFileName: options => ts.getDefaultLibFilePath(options),
+			fileExists: fileName => this.files.has(removeExt(fileName)) || ts.sys.fileExists(fileName),
+			readFile: fileName => this.files.get(removeExt(fileName))?.text ?? ts.sys.readFile(fileName),
+			directoryExists: directoryName =>
+				isModuleDirectory(this.files.keys(), directoryName) || ts.sys.directoryExists(directoryName),
+		};
+		this.languageService = ts.createLanguageService(host);
+	}
+
+	public getCompletions(userCode: string, offset: number): ts.CompletionInfo | undefined {
+		return this.languageService.getCompletionsAtPosition(this.updateUserCode(userCode), offset, undefined);
+	}
+
+	public getQuickInfo(userCode: string, offset: number): ts.QuickInfo | undefined {
+		return this.languageService.getQuickInfoAtPosition(this.updateUserCode(userCode), offset);
+	}
+
+	public getSignatureHelp(userCode: string, offset: number): ts.SignatureHelpItems | undefined {
+		return this.languageService.getSignatureHelpItems(this.updateUserCode(userCode), offset, undefined);
+	}
+
+	// Fixes the language service offers for a diagnostic with the given code in the range of the user code
+	public getCodeFixes(userCode: string, start: number, end: number, errorCode: number): readonly ts.CodeFixAction[] {
+		return this.languageService.getCodeFixesAtPosition(
+			this.updateUserCode(userCode),
+			start,
+			end,
+			[errorCode],
+			ts.getDefaultFormatCodeSettings('\n'),
+			{},
+		);
+	}
+
+	/**
+	 * A starter user file exporting a function of the signature the harness expects, under the export name it calls.
+	 *
+	 * Parameters are named after the types of the arguments, and the documentation of those types and of the output
+	 * type is copied into a doc comment.
+	 */
+	public getStub(): string {
+		const program = this.languageService.getProgram()!;
+		const typeChecker = program.getTypeChecker();
+		const harnessFile = program.getSourceFile(`${EXECUTION_HARNESS_FILENAME}.ts`)!;
+		const globalDeclarations = (harnessFile.statements.find(ts.isModuleDeclaration)!.body as ts.ModuleBlock).statements;
+		const [argumentTypeNode, resultTypeNode] = globalDeclarations.map(
+			statement => (statement as ts.VariableStatement).declarationList.declarations[0].type!,
+		);
+		// The harness declares its result as `outputType | Promise<outputType>`
+		const resultTypes = (resultTypeNode as ts.UnionTypeNode).types;
+		const outputTypeNode = (resultTypes[resultTypes.length - 1] as ts.TypeReferenceNode).typeArguments![0];
+
+		const getDocumentation = (typeNode: ts.TypeNode): string => {
+			if (!ts.isTypeReferenceNode(typeNode)) {
+				return '';
+			}
+			const symbol = typeChecker.getSymbolAtLocation(typeNode.typeName);
+			return symbol !== undefined ? ts.displayPartsToString(symbol.getDocumentationComment(typeChecker)) : '';
+		};
+
+		const parameterNames = new Set<string>();
+		const parameters = (argumentTypeNode as ts.TupleTypeNode).elements.map((typeNode, index) => {
+			let name = ts.isTypeReferenceNode(typeNode)
+				? ts.idText(ts.isIdentifier(typeNode.typeName) ? typeNode.typeName : typeNode.typeName.right)
+				: `arg${index}`;
+			name = name.charAt(0).toLowerCase() + name.slice(1);
+			// Types such as Function or Class would name their parameter after a reserved word
+			if (isReservedParameterName(name)) {
+				name = `arg${index}`;
+			}
+			// Unused parameters are only allowed with a leading underscore under noUnusedParameters
+			if (this.compilerOptions.noUnusedParameters) {
+				name = `_${name}`;
+			}
+			let uniqueName = name;
+			for (let suffix = 2; parameterNames.has(uniqueName); suffix++) {
+				uniqueName = `${name}${suffix}`;
+			}
+			parameterNames.add(uniqueName);
+			return { name: uniqueName, type: typeNode.getText(harnessFile), documentation: getDocumentation(typeNode) };
+		});
+		const outputDocumentation = getDocumentation(outputTypeNode);
+
+		const documentationLines = [
+			...parameters
+				.filter(parameter => parameter.documentation !== '')
+				.map(parameter => `@param ${parameter.name} ${parameter.documentation}`),
+			...(outputDocumentation !== '' ? [`@returns ${outputDocumentation}`] : []),
+		]
+			.flatMap(line => line.split('\n'))
+			// Documentation containing the end of a comment would close the doc comment early
+			.map(line => line.split('*/').join('*\\/'));
+
+		return [
+			...(documentationLines.length > 0 ? ['/**', ...documentationLines.map(line => ` * ${line}`), ' */'] : []),
+			`export ${
+				this.exportName === DEFAULT_EXPORT_NAME ? 'default function ' : `function ${this.exportName}`
+			}(${parameters.map(parameter => `${parameter.name}: ${parameter.type}`).join(', ')}): ${outputTypeNode.getText(
+				harnessFile,
+			)} {`,
+			`  throw new Error('Not implemented');`,
+			'}',
+			'',
+		].join('\n');
+	}
+
+	// Release the programs held by the service
+	public dispose(): void {
+		this.languageService.dispose();
+	}
+
+	public static new(options?: UserCodeLanguageServiceOptions): UserCodeLanguageService {
+		const additionalSourceFiles = options?.additionalSourceFiles ?? [];
+		return new UserCodeLanguageService(
+			additionalSourceFiles instanceof UserCodeLibrary ? additionalSourceFiles.sourceFiles : additionalSourceFiles,
+			options?.outputType ?? 'any',
+			options?.argsTypes ?? ['any'],
+			createCompilerOptions(options?.compilerOptions),
+			options?.exportName ?? DEFAULT_EXPORT_NAME,
+		);
+	}
+
+	private updateUserCode(userCode: string): string {
+		const userFile = this.files.get(USER_CODE_FILENAME)!;
+		if (userFile.text !== userCode) {
+			this.files.set(USER_CODE_FILENAME, { text: userCode, version: userFile.version + 1 });
+		}
+		return `${USER_CODE_FILENAME}.ts`;
+	}
+}
+
+// Reserved words, and the words reserved in the strict mode of modules, can not name a parameter
+function isReservedParameterName(name: string): boolean {
+	const token = ts.identifierToKeywordKind(ts.factory.createIdentifier(name));
+	return (
+		(token !== undefined &&
+			((token >= ts.SyntaxKind.FirstReservedWord && token <= ts.SyntaxKind.LastReservedWord) ||
+				(token >= ts.SyntaxKind.FirstFutureReservedWord && token <= ts.SyntaxKind.LastFutureReservedWord))) ||
+		name === 'arguments' ||
+		name === 'eval'
+	);
+}
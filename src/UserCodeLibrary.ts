@@ -0,0 +1,60 @@
+import crypto from 'crypto';
+import ts from 'typescript';
+
+export interface CompiledLibrary {
+	// Key of the compiler options the library was compiled with, compiles with other options start over
+	compilerOptionsKey: string;
+	// Pre-emit diagnostics reported against the library files and the default lib files
+	diagnostics: ts.Diagnostic[];
+	// Emitted JS of the library files, keyed by file name without extension
+	jsFileMap: { [key: string]: string };
+	// Source maps of the emitted library files, keyed by file name
+	sourceMaps: { [fileName: string]: string };
+}
+
+/**
+ * A set of additional source files that is compiled once and shared between `UserCodeRunner.preProcess` calls.
+ *
+ * The first compile against a library type checks and emits everything, later compiles reuse the parsed source files,
+ * the previous program and the emitted library JS, so that only the user file and the execution harness are rechecked.
+ */
+export class UserCodeLibrary {
+	public readonly sourceFiles: readonly ts.SourceFile[];
+
+	// Program of the last compile against this library, handed to `ts.createProgram` for structure reuse
+	public program: ts.Program | undefined;
+
+	public compiled: CompiledLibrary | undefined;
+
+	private readonly defaultLibFiles = new Map<string, ts.SourceFile | undefined>();
+
+	private cachedContentHash: string | undefined;
+
+	protected constructor(sourceFiles: readonly ts.SourceFile[]) {
+		this.sourceFiles = sourceFiles;
+	}
+
+	// Hash of the names and contents of the library files
+	public get contentHash(): string {
+		if (this.cachedContentHash === undefined) {
+			const hash = crypto.createHash('sha256');
+			for (const sourceFile of this.sourceFiles) {
+				hash.update(JSON.stringify([sourceFile.fileName, sourceFile.text]));
+			}
+			this.cachedContentHash = hash.digest('hex');
+		}
+		return this.cachedContentHash;
+	}
+
+	// Parse a file from the typescript/lib folder once per library
+	public getDefaultLibFile(fileName: string, parse: () => ts.SourceFile | undefined): ts.SourceFile | undefined {
+		if (!this.defaultLibFiles.has(fileName)) {
+			this.defaultLibFiles.set(fileName, parse());
+		}
+		return this.defaultLibFiles.get(fileName);
+	}
+
+	public static new(sourceFiles: readonly ts.SourceFile[]): UserCodeLibrary {
+		return new UserCodeLibrary([...sourceFiles]);
+	}
+}
@@ -3,71 +3,301 @@ import path from 'path';
 import { defaultErrorCodeMessageMappers } from './defaultErrorCodeMessageMappers.js';
 import { createMapDiagnosticMessage } from './utils/errorMessageMapping.js';
 import ts from 'typescript';
-import { parse, StackFrame } from 'stack-trace';
+import { parse } from 'stack-trace';
 import { SourceMapConsumer } from 'source-map';
 import { Result } from './utils/monads.js';
 import { TypeGuard } from './utils/typeGuardCombinators';
+import { UserCodeLibrary } from './UserCodeLibrary.js';
+import { UserCodeLanguageService } from './UserCodeLanguageService.js';
+import type { UserCodeLanguageServiceOptions } from './UserCodeLanguageService.js';
+import { createArtifactCacheKey } from './ArtifactCache.js';
+import type { ArtifactCache } from './ArtifactCache.js';
+import type { WorkerExecutionPool } from './WorkerExecutionPool.js';
+import { UserCodeSession } from './UserCodeSession.js';
+import { SourceMapCache } from './SourceMapCache.js';
+import type { UserCodeSessionOptions } from './UserCodeSession.js';
+import {
+	createExecutionHarnessSource,
+	DEFAULT_EXPORT_NAME,
+	evaluateExecutionHarness,
+	EXECUTION_HARNESS_FILENAME,
+	getHarnessArgsTypeNode,
+	getHarnessOutputTypeNode,
+	getProjectModuleName,
+	isModuleDirectory,
+	linkExecutionHarness,
+	removeExt,
+	USER_CODE_FILENAME,
+} from './executionHarness.js';
+import {
+	CacheItem,
+	CacheItemSignature,
+	createCacheItemMetadata,
+	createArtifactSourceMaps,
+	destroyArtifactSourceMaps,
+	findCacheItemProblem,
+	getOriginalLocation,
+	getStorableCacheItem,
+	ArtifactSourceMaps,
+} from './CacheItem.js';
+import { createCompilerOptions, getCompilerOptionsKey } from './compilerOptions.js';
+import { createOutputSchema, createValueSchema, validateArgs, validateOutput } from './valueValidation.js';
+import type { ValueMismatch } from './valueValidation.js';
+import { cloneArgs, cloneResult, getCloneRealm } from './cloneBoundary.js';
+import type { UserCodeConsole } from './UserCodeConsole.js';
+import {
+	createUserCodeContext,
+	getGlobalsTypings,
+	getGlobalsPresetLib,
+	GLOBALS_TYPINGS_FILENAME,
+} from './globalsPresets.js';
+import type { GlobalsPreset } from './globalsPresets.js';
 
 type integer = number;
 
 export { defaultErrorCodeMessageMappers } from './defaultErrorCodeMessageMappers.js';
+export { UserCodeLibrary } from './UserCodeLibrary.js';
+export { UserCodeLanguageService } from './UserCodeLanguageService.js';
+export type { UserCodeLanguageServiceOptions } from './UserCodeLanguageService.js';
+export { createArtifactCacheKey, DirectoryArtifactCache, InMemoryArtifactCache } from './ArtifactCache.js';
+export type { ArtifactCache } from './ArtifactCache.js';
+export { CACHE_ITEM_FORMAT_VERSION } from './CacheItem.js';
+export { DEFAULT_COMPILER_OPTIONS } from './compilerOptions.js';
+export { WorkerExecutionPool } from './WorkerExecutionPool.js';
+export type { WorkerExecutionOptions, WorkerExecutionPoolOptions } from './WorkerExecutionPool.js';
+export { UserCodeSession } from './UserCodeSession.js';
+export { SourceMapCache } from './SourceMapCache.js';
+export { UserCodeConsole } from './UserCodeConsole.js';
+export type { UserCodeConsoleEntry, UserCodeConsoleLevel, UserCodeConsoleOptions } from './UserCodeConsole.js';
+export type { UserCodeInvocationOptions, UserCodeSessionOptions } from './UserCodeSession.js';
+export type { CacheItem, CacheItemMetadata, CacheItemSignature, ArtifactSourceMaps } from './CacheItem.js';
+export type { ValueMismatch, ValueSchema, ValueSchemaNode } from './valueValidation.js';
+export type { GlobalsPreset } from './globalsPresets.js';
 
-const EXECUTION_HARNESS_FILENAME = '__execution_harness';
-const USER_CODE_FILENAME = '__user_file';
+export interface UserCodeRunnerOptions {
+	typeErrorCodeMessageMappers?: { [errorCode: number]: (message: string) => string | undefined }; // The error code to message mappers
+	artifactCache?: ArtifactCache; // Cache of compiled user code consulted by executeUserCode
+	executionPool?: WorkerExecutionPool; // Run user code in worker threads instead of on the main thread
+	compilerOptions?: ts.CompilerOptions; // Merged over DEFAULT_COMPILER_OPTIONS, options the harness depends on are refused
+	diagnosticCategoryOverrides?: { [errorCode: number]: ts.DiagnosticCategory }; // Report diagnostics with these codes in another category
+	suggestions?: boolean; // Return the suggestions of the language service as warnings, off by default since they take another type check
+	sourceMapCacheSize?: number; // Artifacts whose parsed source maps are kept for mapping runtime errors, defaults to 100
+	libraryStackFrames?: LibraryStackFrames; // Frames in the additional source files in runtime error stacks, hidden by default
+	cloneBoundary?: boolean; // Copy args into the context and results out of it instead of sharing them, off by default
+	globals?: GlobalsPreset; // Compile against the typings of the preset and run in a context with its frozen globals
+}
 
-export interface CacheItem {
-	jsFileMap: { [key: string]: string };
-	userCodeSourceMap: string;
+// User code split over several files, which import each other by file name without extension
+export interface UserCodeProject {
+	files: { [fileName: string]: string };
+	entryPoint: string; // File name of the file whose default export is executed, the other files can not import it
 }
 
-export interface UserCodeRunnerOptions {
-	typeErrorCodeMessageMappers?: { [errorCode: number]: (message: string) => string | undefined }; // The error code to message mappers
+export interface PreProcessOptions {
+	outputType?: string; // Return type of the default export, defaults to 'any'
+	argsTypes?: string[]; // Parameter types of the default export, defaults to ['any']
+	additionalSourceFiles?: ts.SourceFile[] | UserCodeLibrary; // Files the user code can import, or a shared library of them
+	exportName?: string; // Export of the user code that is called, defaults to the default export
+	validateOutput?: boolean; // Check returned values against the output type at runtime, off by default
+	validateArgs?: boolean; // Check the arguments passed by the host against the args types at runtime, off by default
+	signal?: AbortSignal; // Cancels the compilation when aborted
+}
+
+export interface ExecuteUserCodeOptions<ArgsType extends any[]> extends PreProcessOptions {
+	args: ArgsType; // Arguments passed to the default export
+	timeout?: number; // Milliseconds until the result of the user code must settle, defaults to 5000
+	context?: vm.Context; // Context to run the user code in, a fresh one by default
+	console?: UserCodeConsole; // Captures the console output of the user code, which has no console otherwise
+	memoryLimitMb?: number; // Heap limit of the worker thread, only with an execution pool, defaults to the limit of the pool
+}
+
+export interface ExecuteBatchOptions {
+	timeout?: number; // Milliseconds until the result of each argument set must settle, defaults to 5000
+	concurrency?: number; // Argument sets executing at the same time, defaults to 1
+	context?: vm.Context; // Context shared by all argument sets, a fresh one by default
+	signal?: AbortSignal; // Cancels the argument sets that have not finished when aborted
+	console?: UserCodeConsole; // Captures the console output of all argument sets
+	memoryLimitMb?: number; // Heap limit of the worker threads, only with an execution pool, defaults to the limit of the pool
 }
 
 export class UserCodeRunner {
 	private readonly mapDiagnosticMessage: ReturnType<typeof createMapDiagnosticMessage>;
+	private readonly artifactCache: ArtifactCache | undefined;
+	private readonly executionPool: WorkerExecutionPool | undefined;
+	private readonly compilerOptions: ts.CompilerOptions;
+	private readonly compilerOptionsKey: string;
+	private readonly diagnosticCategoryOverrides: { [errorCode: number]: ts.DiagnosticCategory };
+	private readonly suggestions: boolean;
+	private readonly sourceMapCache: SourceMapCache;
+	private readonly libraryStackFrames: LibraryStackFrames;
+	private readonly cloneBoundary: boolean;
+	private readonly globals: GlobalsPreset | undefined;
+	private readonly globalsTypings: ts.SourceFile | undefined;
 
 	constructor(options?: UserCodeRunnerOptions) {
 		this.mapDiagnosticMessage = createMapDiagnosticMessage(
 			options?.typeErrorCodeMessageMappers ?? defaultErrorCodeMessageMappers,
 		);
+		this.artifactCache = options?.artifactCache;
+		this.executionPool = options?.executionPool;
+		this.globals = options?.globals;
+		if (this.globals !== undefined && options?.compilerOptions?.lib !== undefined) {
+			throw new Error(`Compiler option "lib" can not be combined with the "${this.globals}" globals preset`);
+		}
+		this.compilerOptions = createCompilerOptions(
+			this.globals !== undefined
+				? { ...options?.compilerOptions, lib: getGlobalsPresetLib() }
+				: options?.compilerOptions,
+		);
+		this.globalsTypings = this.globals !== undefined ? getGlobalsTypings(this.globals) : undefined;
+		// Libraries compiled against the typings of another preset are checked again
+		this.compilerOptionsKey =
+			getCompilerOptionsKey(this.compilerOptions) + (this.globals !== undefined ? ` ${this.globals}` : '');
+		this.diagnosticCategoryOverrides = options?.diagnosticCategoryOverrides ?? {};
+		this.suggestions = options?.suggestions ?? false;
+		this.sourceMapCache = new SourceMapCache(options?.sourceMapCacheSize);
+		this.libraryStackFrames = options?.libraryStackFrames ?? 'hidden';
+		this.cloneBoundary = options?.cloneBoundary ?? false;
+	}
+
+	// Register additional source files once so that subsequent compiles against them only recheck the user code
+	public static createLibrary(additionalSourceFiles: ts.SourceFile[]): UserCodeLibrary {
+		return UserCodeLibrary.new(additionalSourceFiles);
 	}
 
+	// Serialize a cache item from preProcess for storage, deserializeCacheItem restores it
+	public static serializeCacheItem(cacheItem: CacheItem): string {
+		if (cacheItem.metadata === undefined) {
+			throw new Error('Only cache items produced by preProcess can be serialized');
+		}
+		return JSON.stringify(getStorableCacheItem(cacheItem));
+	}
+
+	// Restore a serialized cache item, rejecting artifacts that are stale or have been tampered with
+	public static deserializeCacheItem(
+		serializedCacheItem: string,
+		expectedSignature?: CacheItemSignature,
+	): Result<CacheItem, UserCodeError[]> {
+		let cacheItem: CacheItem;
+		try {
+			cacheItem = JSON.parse(serializedCacheItem);
+		} catch (error: any) {
+			return Result.Err([UserCodeArtifactError.new(`Artifact is not valid JSON: ${error.message}`)]);
+		}
+		if (
+			typeof cacheItem !== 'object' ||
+			cacheItem === null ||
+			typeof cacheItem.jsFileMap !== 'object' ||
+			typeof cacheItem.userCodeSourceMap !== 'string'
+		) {
+			return Result.Err([UserCodeArtifactError.new('Artifact is not a serialized cache item')]);
+		}
+		const problem = findCacheItemProblem(cacheItem, expectedSignature);
+		if (problem !== undefined) {
+			return Result.Err([UserCodeArtifactError.new(problem)]);
+		}
+		return Result.Ok(cacheItem);
+	}
+
+	// Completions, hover and signature help for user code, compiled with the compiler options of this runner
+	public createLanguageService(
+		options?: Omit<UserCodeLanguageServiceOptions, 'compilerOptions'>,
+	): UserCodeLanguageService {
+		const additionalSourceFiles = options?.additionalSourceFiles ?? [];
+		return UserCodeLanguageService.new({
+			...options,
+			additionalSourceFiles:
+				this.globalsTypings !== undefined
+					? [
+							this.globalsTypings,
+							...(additionalSourceFiles instanceof UserCodeLibrary
+								? additionalSourceFiles.sourceFiles
+								: additionalSourceFiles),
+					  ]
+					: additionalSourceFiles,
+			compilerOptions: this.compilerOptions,
+		});
+	}
+
+	// A starter user file for the signature, checked to compile against the harness
+	public async createUserCodeStub(
+		options?: Omit<PreProcessOptions, 'signal'>,
+	): Promise<Result<string, UserCodeError[]>> {
+		const languageService = this.createLanguageService(options);
+		try {
+			const stub = languageService.getStub();
+			return (await this.preProcess(stub, options)).map(() => stub);
+		} finally {
+			languageService.dispose();
+		}
+	}
+
+	public async preProcess(
+		userCode: string | UserCodeProject,
+		options?: PreProcessOptions,
+	): Promise<Result<CacheItem, UserCodeError[]>>;
 	public async preProcess(
-		userCode: string,
-		outputType: string = 'any',
-		argsTypes: string[] = ['any'],
-		additionalSourceFiles: ts.SourceFile[] = [],
+		userCode: string | UserCodeProject,
+		outputType?: string,
+		argsTypes?: string[],
+		additionalSourceFiles?: ts.SourceFile[] | UserCodeLibrary,
+		signal?: AbortSignal,
+	): Promise<Result<CacheItem, UserCodeError[]>>;
+	public async preProcess(
+		userCode: string | UserCodeProject,
+		...params: [options?: PreProcessOptions] | PositionalPreProcessParams
 	): Promise<Result<CacheItem, UserCodeError[]>> {
+		// The positional form is normalized into the options form
+		const {
+			outputType = 'any',
+			argsTypes = ['any'],
+			additionalSourceFiles = [],
+			exportName = DEFAULT_EXPORT_NAME,
+			validateOutput = false,
+			validateArgs = false,
+			signal,
+		} = typeof params[0] === 'object' ? params[0] : positionalPreProcessOptions(params as PositionalPreProcessParams);
+
+		if (signal?.aborted) {
+			return Result.Err([UserCodeCancellationError.new('compilation')]);
+		}
+
+		const library =
+			additionalSourceFiles instanceof UserCodeLibrary
+				? additionalSourceFiles
+				: UserCodeRunner.createLibrary(additionalSourceFiles);
+
+		// The entry point of a project is compiled as the user file, the other user files are named relative to it
+		const projectFiles = typeof userCode === 'string' ? undefined : getProjectFiles(userCode, library);
+		if (projectFiles?.isErr()) {
+			return Result.Err(projectFiles.unwrapErr());
+		}
+		const { entryPointCode, files: userFiles = [] } = projectFiles?.unwrap() ?? { entryPointCode: userCode as string };
+
 		// TypeCheck and transpile code
 		const userSourceFile = ts.createSourceFile(
 			USER_CODE_FILENAME,
-			userCode,
+			entryPointCode,
 			ts.ScriptTarget.ESNext,
 			undefined,
 			ts.ScriptKind.TS,
 		);
+		const projectSourceFiles = userFiles.map(({ moduleFileName, text }) =>
+			ts.createSourceFile(moduleFileName, text, ts.ScriptTarget.ESNext, undefined, ts.ScriptKind.TS),
+		);
+		// Module names of the user files mapped to the file names they are reported with
+		const userFileNames =
+			typeof userCode === 'string'
+				? undefined
+				: new Map([
+						[USER_CODE_FILENAME, userCode.entryPoint],
+						...userFiles.map(({ moduleFileName, fileName }): [string, string] => [removeExt(moduleFileName), fileName]),
+				  ]);
+		const libraryFileNames = new Map(
+			library.sourceFiles.map((sourceFile): [string, string] => [removeExt(sourceFile.fileName), sourceFile.fileName]),
+		);
 
-		const executionCode = `
-			${additionalSourceFiles
-				.map(file => {
-					if (file.fileName.endsWith('.d.ts')) return '';
-					const filenameSansExt = removeExt(file.fileName);
-					return `import '${filenameSansExt}';`;
-				})
-				.join('\n  ')}
-      import defaultExport from '${USER_CODE_FILENAME}';
-            
-      declare global {
-        const __args: [${argsTypes.join(', ')}];
-        let __result: ${outputType} | Promise<${outputType}>;
-      }
-      __result = defaultExport(...__args);
-      
-      if ((__result as any) instanceof Promise) {
-      	__result = await __result;
-      }
-    `;
+		const executionCode = createExecutionHarnessSource(library.sourceFiles, outputType, argsTypes, exportName);
 
 		const executionSourceFile = ts.createSourceFile(
 			EXECUTION_HARNESS_FILENAME,
@@ -82,12 +312,17 @@ export class UserCodeRunner {
 		tsFileMap.set(USER_CODE_FILENAME, userSourceFile);
 		tsFileMap.set(EXECUTION_HARNESS_FILENAME, executionSourceFile);
 
-		for (const additionalSourceFile of additionalSourceFiles) {
+		for (const additionalSourceFile of [...library.sourceFiles, ...projectSourceFiles]) {
 			tsFileMap.set(removeExt(additionalSourceFile.fileName), additionalSourceFile);
 		}
+		if (this.globalsTypings !== undefined) {
+			tsFileMap.set(removeExt(GLOBALS_TYPINGS_FILENAME), this.globalsTypings);
+		}
 
 		const jsFileMap = {} as { [key: string]: string };
 		let userCodeSourceMap: string;
+		const userFileSourceMaps = {} as { [fileName: string]: string };
+		const librarySourceMaps = {} as { [fileName: string]: string };
 
 		const defaultCompilerHost = ts.createCompilerHost({});
 		const customCompilerHost: ts.CompilerHost = {
@@ -100,15 +335,22 @@ export class UserCodeRunner {
 				if (tsFileMap.has(filenameSansExt)) {
 					return tsFileMap.get(filenameSansExt);
 				} else if (fileName.includes('typescript/lib')) {
-					return defaultCompilerHost.getSourceFile(fileName, languageVersion);
+					return library.getDefaultLibFile(fileName, () =>
+						defaultCompilerHost.getSourceFile(fileName, languageVersion),
+					);
 				}
 				return undefined;
 			},
 			writeFile: (fileName, data) => {
 				const filenameSansExt = removeExt(fileName);
 				if (fileName.endsWith('.map')) {
-					if (removeExt(filenameSansExt) === USER_CODE_FILENAME) {
-						userCodeSourceMap = ts.createSourceFile(removeExt(filenameSansExt), data, ts.ScriptTarget.ESNext).text;
+					const moduleName = removeExt(filenameSansExt);
+					if (moduleName === USER_CODE_FILENAME) {
+						userCodeSourceMap = ts.createSourceFile(moduleName, data, ts.ScriptTarget.ESNext).text;
+					} else if (userFileNames?.has(moduleName)) {
+						userFileSourceMaps[userFileNames.get(moduleName)!] = data;
+					} else if (libraryFileNames.has(moduleName)) {
+						librarySourceMaps[libraryFileNames.get(moduleName)!] = data;
 					}
 				} else {
 					jsFileMap[filenameSansExt] = ts.createSourceFile(
@@ -131,25 +373,83 @@ export class UserCodeRunner {
 				const filenameSansExt = removeExt(fileName);
 				return tsFileMap.has(filenameSansExt);
 			},
+			directoryExists(directoryName: string): boolean {
+				return (
+					isModuleDirectory(tsFileMap.keys(), directoryName) ||
+					(defaultCompilerHost.directoryExists?.(directoryName) ?? false)
+				);
+			},
 		};
 
-		const program = ts.createProgram(
-			[...additionalSourceFiles.map(f => f.fileName), EXECUTION_HARNESS_FILENAME],
-			{
-				target: ts.ScriptTarget.ESNext,
-				module: ts.ModuleKind.ES2022,
-				lib: ['lib.esnext.d.ts'],
-				sourceMap: true,
-			},
-			customCompilerHost,
-		);
+		const rootNames = [
+			...library.sourceFiles.map(f => f.fileName),
+			...projectSourceFiles.map(f => f.fileName),
+			...(this.globalsTypings !== undefined ? [GLOBALS_TYPINGS_FILENAME] : []),
+			EXECUTION_HARNESS_FILENAME,
+		];
+		const program = ts.createProgram(rootNames, this.compilerOptions, customCompilerHost, library.program);
+		library.program = program;
+
+		if (await isAborted(signal)) {
+			return Result.Err([UserCodeCancellationError.new('compilation')]);
+		}
 
 		const typeChecker = program.getTypeChecker();
 
+		// Only the user files and the harness need checking and emitting once the library has been compiled
+		const compiledLibrary =
+			library.compiled?.compilerOptionsKey === this.compilerOptionsKey ? library.compiled : undefined;
+		const checkedSourceFiles = [userSourceFile, ...projectSourceFiles, executionSourceFile];
+		const preEmitDiagnostics =
+			compiledLibrary === undefined
+				? ts.getPreEmitDiagnostics(program)
+				: ts.sortAndDeduplicateDiagnostics([
+						...program.getOptionsDiagnostics(),
+						...checkedSourceFiles.flatMap(sourceFile => program.getSyntacticDiagnostics(sourceFile)),
+						...program.getGlobalDiagnostics(),
+						...checkedSourceFiles.flatMap(sourceFile => program.getSemanticDiagnostics(sourceFile)),
+						...compiledLibrary.diagnostics,
+				  ]);
+
+		// Only errors fail the compile, warnings and suggestions are returned with the artifacts
 		const sourceErrors: UserCodeError[] = [];
-		ts.getPreEmitDiagnostics(program).forEach(diagnostic => {
+		const warnings: UserCodeError[] = [];
+		// Code fixes are only computed when asked for, by a language service over the same files that is disposed right after
+		const getCodeFixes = (diagnostic: ts.Diagnostic) => {
+			const languageService = this.createLanguageService({
+				outputType,
+				argsTypes,
+				additionalSourceFiles:
+					projectSourceFiles.length > 0 ? [...library.sourceFiles, ...projectSourceFiles] : library,
+				exportName,
+			});
+			try {
+				return languageService.getCodeFixes(
+					entryPointCode,
+					diagnostic.start!,
+					diagnostic.start! + diagnostic.length!,
+					diagnostic.code,
+				);
+			} finally {
+				languageService.dispose();
+			}
+		};
+		const reportDiagnostic = (diagnostic: ts.Diagnostic) => {
+			const category = this.diagnosticCategoryOverrides[diagnostic.code];
+			const error = UserCodeTypeError.new(
+				category === undefined ? diagnostic : { ...diagnostic, category },
+				tsFileMap,
+				typeChecker,
+				this.mapDiagnosticMessage,
+				getCodeFixes,
+				userFileNames,
+			);
+			(error.severity === 'error' ? sourceErrors : warnings).push(error);
+		};
+
+		preEmitDiagnostics.forEach(diagnostic => {
 			if (diagnostic.file) {
-				sourceErrors.push(UserCodeTypeError.new(diagnostic, tsFileMap, typeChecker, this.mapDiagnosticMessage));
+				reportDiagnostic(diagnostic);
 			} else {
 				const codes = getDiagnosticCodes(diagnostic);
 				if (codes.some(code => ([1420] as integer[]).includes(code))) {
@@ -161,12 +461,28 @@ export class UserCodeRunner {
 				}
 			}
 		});
+		// A compile that already failed has no successful result to return suggestions with
+		if (this.suggestions && sourceErrors.length === 0) {
+			getSuggestionDiagnostics(
+				rootNames,
+				this.compilerOptions,
+				customCompilerHost,
+				[userSourceFile, ...projectSourceFiles].map(sourceFile => sourceFile.fileName),
+			).forEach(reportDiagnostic);
+		}
+
+		if (await isAborted(signal)) {
+			return Result.Err([UserCodeCancellationError.new('compilation')]);
+		}
 
-		const emitResult = program.emit();
+		const emitDiagnostics =
+			compiledLibrary === undefined
+				? program.emit().diagnostics
+				: checkedSourceFiles.flatMap(sourceFile => program.emit(sourceFile).diagnostics);
 
-		emitResult.diagnostics.forEach(diagnostic => {
+		emitDiagnostics.forEach(diagnostic => {
 			if (diagnostic.file) {
-				sourceErrors.push(UserCodeTypeError.new(diagnostic, tsFileMap, typeChecker, this.mapDiagnosticMessage));
+				reportDiagnostic(diagnostic);
 			} else {
 				throw new Error(
 					`Unhandled diagnostic: ${diagnostic.code} ${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')}`,
@@ -174,78 +490,459 @@ export class UserCodeRunner {
 			}
 		});
 
+		if (compiledLibrary === undefined) {
+			const checkedFileNames = checkedSourceFiles.map(sourceFile => removeExt(sourceFile.fileName));
+			library.compiled = {
+				compilerOptionsKey: this.compilerOptionsKey,
+				diagnostics: preEmitDiagnostics.filter(
+					diagnostic =>
+						diagnostic.file !== undefined && !checkedFileNames.includes(removeExt(diagnostic.file.fileName)),
+				),
+				jsFileMap: Object.fromEntries(
+					Object.entries(jsFileMap).filter(([fileName]) => !checkedFileNames.includes(fileName)),
+				),
+				sourceMaps: { ...librarySourceMaps },
+			};
+		} else {
+			Object.assign(jsFileMap, compiledLibrary.jsFileMap);
+			Object.assign(librarySourceMaps, compiledLibrary.sourceMaps);
+		}
+
 		if (sourceErrors.length > 0) {
 			return Result.Err(sourceErrors);
 		}
 
-		return Result.Ok({
+		const artifacts = {
 			jsFileMap,
 			userCodeSourceMap: userCodeSourceMap!,
+			...(typeof userCode !== 'string' ? { entryPoint: userCode.entryPoint, userFileSourceMaps } : {}),
+			// Libraries of declarations only have nothing to map
+			...(Object.keys(librarySourceMaps).length > 0 ? { librarySourceMaps } : {}),
+			...(this.globals !== undefined ? { globals: this.globals } : {}),
+			...(validateOutput
+				? {
+						outputSchema: createOutputSchema(
+							typeChecker.getTypeFromTypeNode(getHarnessOutputTypeNode(executionSourceFile)),
+							typeChecker,
+						),
+				  }
+				: {}),
+			...(validateArgs
+				? {
+						argsSchema: createValueSchema(
+							typeChecker.getTypeFromTypeNode(getHarnessArgsTypeNode(executionSourceFile)),
+							typeChecker,
+						),
+				  }
+				: {}),
+		};
+		return Result.Ok({
+			...artifacts,
+			metadata: createCacheItemMetadata(
+				artifacts,
+				// The default export is left out of the signature, keeping the metadata of earlier artifacts unchanged
+				exportName === DEFAULT_EXPORT_NAME ? { outputType, argsTypes } : { outputType, argsTypes, exportName },
+				library.contentHash,
+			),
+			warnings,
 		});
 	}
 
 	public async executeUserCode<ArgsType extends any[], ReturnType = any>(
-		userCode: string,
+		userCode: string | UserCodeProject,
+		options: ExecuteUserCodeOptions<ArgsType>,
+	): Promise<Result<ReturnType, UserCodeError[]>>;
+	public async executeUserCode<ArgsType extends any[], ReturnType = any>(
+		userCode: string | UserCodeProject,
 		args: ArgsType,
-		outputType: string = 'any',
-		argsTypes: string[] = ['any'],
-		timeout: number = 5000,
-		additionalSourceFiles: ts.SourceFile[] = [],
-		context: vm.Context = vm.createContext(),
+		outputType?: string,
+		argsTypes?: string[],
+		timeout?: number,
+		additionalSourceFiles?: ts.SourceFile[] | UserCodeLibrary,
+		context?: vm.Context,
+		signal?: AbortSignal,
+	): Promise<Result<ReturnType, UserCodeError[]>>;
+	public async executeUserCode<ArgsType extends any[], ReturnType = any>(
+		userCode: string | UserCodeProject,
+		...params: [options: ExecuteUserCodeOptions<ArgsType>] | PositionalExecuteUserCodeParams<ArgsType>
 	): Promise<Result<ReturnType, UserCodeError[]>> {
-		const result = await this.preProcess(userCode, outputType, argsTypes, additionalSourceFiles);
+		// The positional form is normalized into the options form, its first parameter is the args array
+		const {
+			args,
+			outputType = 'any',
+			argsTypes = ['any'],
+			timeout = 5000,
+			additionalSourceFiles = [],
+			exportName,
+			validateOutput,
+			validateArgs,
+			context,
+			signal,
+			console: userConsole,
+			memoryLimitMb,
+		} = Array.isArray(params[0])
+			? positionalExecuteUserCodeOptions(params as PositionalExecuteUserCodeParams<ArgsType>)
+			: (params[0] as ExecuteUserCodeOptions<ArgsType>);
+
+		const cacheKey =
+			this.artifactCache !== undefined
+				? createArtifactCacheKey(
+						userCode,
+						outputType,
+						argsTypes,
+						additionalSourceFiles,
+						this.compilerOptions,
+						exportName,
+						validateOutput,
+						validateArgs,
+						this.globals,
+						this.diagnosticCategoryOverrides,
+				  )
+				: undefined;
+		let cacheItem = cacheKey !== undefined ? await this.artifactCache!.get(cacheKey) : undefined;
+
+		// Entries left behind by another runner or compiler version are recompiled
+		if (cacheItem === undefined || findCacheItemProblem(cacheItem) !== undefined) {
+			const result = await this.preProcess(userCode, {
+				outputType,
+				argsTypes,
+				additionalSourceFiles,
+				exportName,
+				validateOutput,
+				validateArgs,
+				signal,
+			});
+
+			if (result.isErr()) {
+				return result;
+			}
+
+			cacheItem = result.unwrap();
+			if (cacheKey !== undefined) {
+				// Warnings hold on to the program of the compile, they are not cached with the artifacts
+				await this.artifactCache!.set(cacheKey, getStorableCacheItem(cacheItem));
+			}
+		}
+
+		// The cache hit was checked above and fresh artifacts are sound, so they are not hashed again
+		return this.executeCheckedArtifacts(cacheItem, args, timeout, context, signal, userConsole, memoryLimitMb);
+	}
 
-		if (result.isErr()) {
-			return result;
+	// Link compiled user code once for many invocations, see UserCodeSession
+	public async createSession<ArgsType extends any[] = any[], ReturnType = any>(
+		cacheItem: CacheItem,
+		options?: UserCodeSessionOptions,
+	): Promise<Result<UserCodeSession<ArgsType, ReturnType>, UserCodeError[]>> {
+		const problem = findCacheItemProblem(cacheItem);
+		if (problem !== undefined) {
+			return Result.Err([UserCodeArtifactError.new(problem)]);
 		}
+		return UserCodeSession.new<ArgsType, ReturnType>(cacheItem, this.sourceMapCache, {
+			libraryStackFrames: this.libraryStackFrames,
+			cloneBoundary: this.cloneBoundary,
+			...options,
+		});
+	}
 
-		const { jsFileMap, userCodeSourceMap } = result.unwrap();
+	// Destroy the parsed source maps kept for a cache item, or for all cache items, for example on shutdown
+	public releaseSourceMaps(cacheItem?: CacheItem): void {
+		if (cacheItem !== undefined) {
+			this.sourceMapCache.release(cacheItem);
+		} else {
+			this.sourceMapCache.clear();
+		}
+		// Errors of user code run in the execution pool are mapped with the source maps kept by the pool
+		this.executionPool?.releaseSourceMaps(cacheItem);
+	}
+
+	/**
+	 * Execute compiled user code once per argument set, returning the result of every argument set in order.
+	 *
+	 * The modules are linked once and the source maps parsed once for the whole batch, see UserCodeSession. With an
+	 * execution pool every argument set runs in a worker instead. A failing argument set does not stop the others, when the
+	 * top level code of the user code fails, every argument set fails with its errors.
+	 */
+	public async executeBatch<ArgsType extends any[], ReturnType = any>(
+		cacheItem: CacheItem,
+		argsList: ArgsType[],
+		options?: ExecuteBatchOptions,
+	): Promise<Result<ReturnType, UserCodeError[]>[]> {
+		const { timeout = 5000, concurrency = 1, context, signal, console: userConsole, memoryLimitMb } = options ?? {};
+		if (!Number.isInteger(concurrency) || concurrency < 1) {
+			throw new Error(`Batch concurrency must be an integer of at least 1, but was: ${concurrency}`);
+		}
 
-		return this.executeUserCodeFromArtifacts(jsFileMap, userCodeSourceMap, args, timeout, context);
+		let execute: (args: ArgsType) => Promise<Result<ReturnType, UserCodeError[]>>;
+		if (this.executionPool !== undefined) {
+			if (context !== undefined) {
+				throw new Error('A context can not be provided when executing user code in an execution pool');
+			}
+			// Check the artifacts once for the whole batch instead of once per argument set
+			const problem = findCacheItemProblem(cacheItem);
+			if (problem !== undefined) {
+				return argsList.map(() => Result.Err([UserCodeArtifactError.new(problem)]));
+			}
+			execute = args =>
+				this.executeCheckedArtifacts<ArgsType, ReturnType>(
+					cacheItem,
+					args,
+					timeout,
+					undefined,
+					signal,
+					userConsole,
+					memoryLimitMb,
+				);
+		} else {
+			if (memoryLimitMb !== undefined) {
+				throw new Error('A memory limit can only be set when executing user code in an execution pool');
+			}
+			const session = await this.createSession<ArgsType, ReturnType>(cacheItem, {
+				timeout,
+				context,
+				signal,
+				console: userConsole,
+			});
+			if (session.isErr()) {
+				return argsList.map(() => Result.Err(session.unwrapErr()));
+			}
+			execute = args => session.unwrap().invoke(args, { timeout, signal });
+		}
+
+		const results: Result<ReturnType, UserCodeError[]>[] = new Array(argsList.length);
+		let nextIndex = 0;
+		const runNext = async (): Promise<void> => {
+			while (nextIndex < argsList.length) {
+				const index = nextIndex++;
+				// An argument set that throws fails on its own, the others keep going
+				results[index] = await execute(argsList[index]).catch(error =>
+					Result.Err([UserCodeRuntimeError.fromHostError(error)]),
+				);
+			}
+		};
+		await Promise.all(Array.from({ length: Math.min(concurrency, argsList.length) }, runNext));
+		return results;
 	}
 
+	public async executeUserCodeFromArtifacts<ArgsType extends any[], ReturnType = any>(
+		cacheItem: CacheItem,
+		args: ArgsType,
+		timeout?: number,
+		context?: vm.Context,
+		signal?: AbortSignal,
+		userConsole?: UserCodeConsole,
+		memoryLimitMb?: number,
+	): Promise<Result<ReturnType, UserCodeError[]>>;
 	public async executeUserCodeFromArtifacts<ArgsType extends any[], ReturnType = any>(
 		jsFileMap: { [key: string]: string },
 		sourceMap: string,
 		args: ArgsType,
-		timeout: number = 5000,
-		context: vm.Context = vm.createContext(),
+		timeout?: number,
+		context?: vm.Context,
+		signal?: AbortSignal,
+		userConsole?: UserCodeConsole,
+		memoryLimitMb?: number,
+	): Promise<Result<ReturnType, UserCodeError[]>>;
+	public async executeUserCodeFromArtifacts<ArgsType extends any[], ReturnType = any>(
+		...params:
+			| [
+					cacheItem: CacheItem,
+					args: ArgsType,
+					timeout?: number,
+					context?: vm.Context,
+					signal?: AbortSignal,
+					userConsole?: UserCodeConsole,
+					memoryLimitMb?: number,
+			  ]
+			| [
+					jsFileMap: { [key: string]: string },
+					sourceMap: string,
+					args: ArgsType,
+					timeout?: number,
+					context?: vm.Context,
+					signal?: AbortSignal,
+					userConsole?: UserCodeConsole,
+					memoryLimitMb?: number,
+			  ]
 	): Promise<Result<ReturnType, UserCodeError[]>> {
-		// Put args and result into context
-		context.__args = args;
-		context.__result = undefined;
+		// The positional artifacts form is normalized into a cache item without metadata
+		const [cacheItem, args, timeout = 5000, providedContext, signal, userConsole, memoryLimitMb] = (
+			typeof params[1] === 'string'
+				? [{ jsFileMap: params[0], userCodeSourceMap: params[1] }, ...params.slice(2)]
+				: params
+		) as [CacheItem, ArgsType, number?, vm.Context?, AbortSignal?, UserCodeConsole?, number?];
+		// Only the legacy positional form runs artifacts without metadata, cache items must pass the integrity check
+		if (typeof params[1] !== 'string') {
+			const problem = findCacheItemProblem(cacheItem);
+			if (problem !== undefined) {
+				return Result.Err([UserCodeArtifactError.new(problem)]);
+			}
+		}
+		return this.executeCheckedArtifacts(cacheItem, args, timeout, providedContext, signal, userConsole, memoryLimitMb);
+	}
 
-		// Create modules for VM
-		const moduleCache = new Map<string, vm.Module>();
-		for (const [fileName, content] of Object.entries(jsFileMap)) {
-			moduleCache.set(
-				fileName,
-				new vm.SourceTextModule(content, {
-					identifier: fileName,
-					context,
-				}),
+	// Execute artifacts that passed the integrity check, or the legacy positional artifacts that have no metadata
+	private async executeCheckedArtifacts<ArgsType extends any[], ReturnType = any>(
+		cacheItem: CacheItem,
+		args: ArgsType,
+		timeout: number,
+		providedContext: vm.Context | undefined,
+		signal: AbortSignal | undefined,
+		userConsole: UserCodeConsole | undefined,
+		memoryLimitMb: number | undefined,
+	): Promise<Result<ReturnType, UserCodeError[]>> {
+		const { jsFileMap } = cacheItem;
+		if (providedContext !== undefined && cacheItem.globals !== undefined) {
+			throw new Error(
+				`A context can not be provided for user code compiled with the "${cacheItem.globals}" globals preset`,
 			);
 		}
-		const harnessModule = moduleCache.get(EXECUTION_HARNESS_FILENAME)!;
-		await harnessModule.link(specifier => {
-			const filenameSansExt = removeExt(specifier);
-			if (moduleCache.has(filenameSansExt)) {
-				return moduleCache.get(filenameSansExt)!;
+
+		if (this.executionPool !== undefined) {
+			if (providedContext !== undefined) {
+				throw new Error('A context can not be provided when executing user code in an execution pool');
 			}
-			throw new Error(`Unable to resolve dependency: ${specifier}`);
-		});
+			// The pool rejects executions it can no longer run, such as the ones in flight when it is destroyed
+			return this.executionPool
+				.execute<ArgsType, ReturnType>(cacheItem, args, {
+					timeout,
+					memoryLimitMb,
+					signal,
+					libraryStackFrames: this.libraryStackFrames,
+					console: userConsole,
+				})
+				.catch(error => Result.Err([UserCodeRuntimeError.fromHostError(error)]));
+		}
+		// The heap of the main thread can not be limited per execution
+		if (memoryLimitMb !== undefined) {
+			throw new Error('A memory limit can only be set when executing user code in an execution pool');
+		}
+
+		if (signal?.aborted) {
+			return Result.Err([UserCodeCancellationError.new('execution')]);
+		}
+
+		const argsValidation = validateArgs(args, cacheItem.argsSchema);
+		if (argsValidation.isErr()) {
+			return Result.Err(argsValidation.unwrapErr());
+		}
+
+		// The globals of the context are the ones the artifacts were compiled against
+		const context = providedContext ?? createUserCodeContext(cacheItem.globals);
+
+		// Put args and result into context, copies of the args behind a clone boundary
+		let contextArgs = args;
+		if (this.cloneBoundary) {
+			const clonedArgs = cloneArgs(args, getCloneRealm(context));
+			if (clonedArgs.isErr()) {
+				return Result.Err(clonedArgs.unwrapErr());
+			}
+			contextArgs = clonedArgs.unwrap();
+		}
+		context.__args = contextArgs;
+		context.__result = undefined;
+		userConsole?.install(context);
+
+		const harnessModule = await linkExecutionHarness(jsFileMap, context);
 
 		try {
-			await harnessModule.evaluate({
-				timeout,
-			});
-			return Result.Ok(context.__result);
+			return await this.evaluateFromArtifacts<ReturnType>(cacheItem, harnessModule, context, timeout, signal);
+		} finally {
+			if (userConsole?.unlocated) {
+				await this.sourceMapCache.use(cacheItem, sourceMaps => userConsole.locate(sourceMaps));
+			}
+		}
+	}
+
+	private async evaluateFromArtifacts<ReturnType>(
+		cacheItem: CacheItem,
+		harnessModule: vm.Module,
+		context: vm.Context,
+		timeout: number,
+		signal: AbortSignal | undefined,
+	): Promise<Result<ReturnType, UserCodeError[]>> {
+		try {
+			const evaluation = await evaluateExecutionHarness(harnessModule, timeout, signal);
+			if (evaluation.type === 'cancelled') {
+				return Result.Err([UserCodeCancellationError.new('execution')]);
+			}
+			if (evaluation.type === 'timeout') {
+				return Result.Err([
+					evaluation.error !== undefined
+						? await this.sourceMapCache.use(cacheItem, sourceMaps =>
+								UserCodeTimeoutError.new(
+									timeout,
+									evaluation.elapsed,
+									evaluation.error,
+									sourceMaps.get(USER_CODE_FILENAME)!.sourceMap,
+								),
+						  )
+						: UserCodeTimeoutError.new(timeout, evaluation.elapsed),
+				]);
+			}
+			if (!this.cloneBoundary) {
+				return validateOutput<ReturnType>(context.__result, cacheItem.outputSchema);
+			}
+			const clonedResult = cloneResult<ReturnType>(context.__result);
+			return clonedResult.isOk()
+				? validateOutput<ReturnType>(clonedResult.unwrap(), cacheItem.outputSchema)
+				: clonedResult;
 		} catch (error: any) {
-			return Result.Err([UserCodeRuntimeError.new(error as Error, await new SourceMapConsumer(sourceMap))]);
+			return Result.Err([
+				await this.sourceMapCache.use(cacheItem, sourceMaps =>
+					UserCodeRuntimeError.new(error as Error, sourceMaps, this.libraryStackFrames),
+				),
+			]);
 		}
 	}
 }
 
+// Kind of a user code error, type errors in the signature of the called export are harness errors
+export type UserCodeErrorCategory =
+	| 'type'
+	| 'harness'
+	| 'runtime'
+	| 'artifact'
+	| 'project'
+	| 'timeout'
+	| 'cancellation'
+	| 'resource-limit'
+	| 'output'
+	| 'argument'
+	| 'transfer';
+
+export type UserCodeErrorSeverity = 'error' | 'warning' | 'suggestion' | 'message';
+
+// 1-based location in the user code, errors in a project also name the user file
+export interface UserCodeLocation {
+	line: number;
+	column: number;
+	fileName?: string;
+}
+
+// 1-based position in the user code, the offset is only known for errors reported by the compiler
+export interface UserCodePosition {
+	line: number;
+	column: number;
+	offset?: number;
+}
+
+export interface UserCodeRange {
+	start: UserCodePosition;
+	end: UserCodePosition;
+}
+
+// Replace the range of the user code with the new text, an empty range inserts it
+export interface UserCodeTextEdit {
+	range: UserCodeRange;
+	newText: string;
+}
+
+// Edits that resolve an error when applied together
+export interface UserCodeFix {
+	description: string;
+	edits: UserCodeTextEdit[];
+}
+
 // Base error type for the User Code Runner
 export abstract class UserCodeError {
 	// Simple Error Message
@@ -255,7 +952,32 @@ export abstract class UserCodeError {
 	public abstract get stack(): string;
 
 	// Location in the source code where the error occurred
-	public abstract get location(): { line: number; column: number };
+	public abstract get location(): UserCodeLocation;
+
+	public abstract get category(): UserCodeErrorCategory;
+
+	// TypeScript diagnostic code of errors reported by the compiler
+	public get code(): number | undefined {
+		return undefined;
+	}
+
+	public get severity(): UserCodeErrorSeverity {
+		return 'error';
+	}
+
+	// Range of the source code the error applies to, empty at the location unless the error knows its extent
+	public get range(): UserCodeRange {
+		const { line, column } = this.location;
+		return {
+			start: { line, column },
+			end: { line, column },
+		};
+	}
+
+	// Machine applicable fixes for the error, computed when read and therefore left out of toJSON
+	public get fixes(): UserCodeFix[] {
+		return [];
+	}
 
 	protected static getDescendentNodes<T extends ts.Node>(node: ts.Node, guard: TypeGuard<ts.Node, T>): T[] {
 		const nodeList: T[] = [];
@@ -284,12 +1006,20 @@ export abstract class UserCodeError {
 	public toJSON(): {
 		message: string;
 		stack: string;
-		location: { line: number; column: number };
+		location: UserCodeLocation;
+		range: UserCodeRange;
+		code: number | undefined;
+		category: UserCodeErrorCategory;
+		severity: UserCodeErrorSeverity;
 	} {
 		return {
 			message: this.message,
 			stack: this.stack,
 			location: this.location,
+			range: this.range,
+			code: this.code,
+			category: this.category,
+			severity: this.severity,
 		};
 	}
 
@@ -305,6 +1035,8 @@ export class UserCodeTypeError extends UserCodeError {
 		protected sources: Map<string, ts.SourceFile>,
 		protected typeChecker: ts.TypeChecker,
 		protected mapDiagnosticMessage: (diagnostic: ts.Diagnostic) => string[],
+		protected getCodeFixes?: (diagnostic: ts.Diagnostic) => readonly ts.CodeFixAction[],
+		protected userFileNames?: Map<string, string>,
 	) {
 		super();
 	}
@@ -314,7 +1046,7 @@ export class UserCodeTypeError extends UserCodeError {
 	}
 
 	public get stack(): string {
-		const userFile = this.sources.get(USER_CODE_FILENAME)!;
+		const userFile = this.userFile;
 		const diagnosticNode = UserCodeError.getDescendentAtLocation(
 			userFile,
 			this.diagnostic.start!,
@@ -327,46 +1059,139 @@ export class UserCodeTypeError extends UserCodeError {
 			| ts.FunctionDeclaration
 			| undefined;
 
-		return `at ${functionDeclaration?.name?.getText() ?? ''}(${this.location.line}:${this.location.column})`;
+		return `at ${functionDeclaration?.name?.getText() ?? ''}(${formatLocation(this.location)})`;
 	}
 
-	public get location(): { line: number; column: number } {
+	public get location(): UserCodeLocation {
 		if (this.diagnostic.start === undefined) {
 			throw new Error('Could not find start position');
 		}
-		const location = this.sources.get(USER_CODE_FILENAME)!.getLineAndCharacterOfPosition(this.diagnostic.start);
+		const location = this.userFile.getLineAndCharacterOfPosition(this.diagnostic.start);
 		return {
 			line: location.line + 1,
 			column: location.character + 1,
+			...this.userFileNameProperty,
 		};
 	}
 
+	public get category(): UserCodeErrorCategory {
+		return 'type';
+	}
+
+	public get code(): number {
+		return this.diagnostic.code;
+	}
+
+	public get severity(): UserCodeErrorSeverity {
+		return getDiagnosticSeverity(this.diagnostic.category);
+	}
+
+	// Fixes offered by the TypeScript language service that only edit the user code
+	public get fixes(): UserCodeFix[] {
+		if (
+			this.getCodeFixes === undefined ||
+			this.diagnostic.start === undefined ||
+			removeExt(this.diagnostic.file?.fileName ?? '') !== USER_CODE_FILENAME
+		) {
+			return [];
+		}
+		const userFile = this.sources.get(USER_CODE_FILENAME)!;
+		return this.getCodeFixes(this.diagnostic)
+			.filter(
+				action =>
+					action.commands === undefined &&
+					action.changes.every(change => !change.isNewFile && removeExt(change.fileName) === USER_CODE_FILENAME),
+			)
+			.map(action => ({
+				description: action.description,
+				edits: action.changes.flatMap(change =>
+					change.textChanges.map(textChange =>
+						createUserCodeTextEdit(
+							userFile,
+							textChange.span.start,
+							textChange.span.start + textChange.span.length,
+							textChange.newText,
+						),
+					),
+				),
+			}));
+	}
+
+	public get range(): UserCodeRange {
+		if (this.diagnostic.start === undefined) {
+			return super.range;
+		}
+		const userFile = this.userFile;
+		return {
+			start: getUserCodePosition(userFile, this.diagnostic.start),
+			end: getUserCodePosition(userFile, this.diagnostic.start + (this.diagnostic.length ?? 0)),
+		};
+	}
+
+	// The user file the diagnostic is reported in, diagnostics outside of the user files are placed in the entry point
+	protected get userFile(): ts.SourceFile {
+		const moduleName = removeExt(this.diagnostic.file?.fileName ?? '');
+		return this.sources.get(this.userFileNames?.has(moduleName) ? moduleName : USER_CODE_FILENAME)!;
+	}
+
+	protected get userFileNameProperty(): { fileName?: string } {
+		return this.userFileNames !== undefined
+			? { fileName: this.userFileNames.get(removeExt(this.userFile.fileName)) }
+			: {};
+	}
+
 	public static new(
 		diagnostic: ts.Diagnostic,
 		sources: Map<string, ts.SourceFile>,
 		typeChecker: ts.TypeChecker,
 		mapDiagnosticMessage: (diagnostic: ts.Diagnostic) => string[],
+		getCodeFixes?: (diagnostic: ts.Diagnostic) => readonly ts.CodeFixAction[],
+		userFileNames?: Map<string, string>,
 	): UserCodeError {
 		if (removeExt(diagnostic.file?.fileName ?? '') === EXECUTION_HARNESS_FILENAME) {
-			return new ExecutionHarnessTypeError(diagnostic, sources, typeChecker, mapDiagnosticMessage);
+			return new ExecutionHarnessTypeError(
+				diagnostic,
+				sources,
+				typeChecker,
+				mapDiagnosticMessage,
+				undefined,
+				userFileNames,
+			);
 		}
-		return new UserCodeTypeError(diagnostic, sources, typeChecker, mapDiagnosticMessage);
+		return new UserCodeTypeError(diagnostic, sources, typeChecker, mapDiagnosticMessage, getCodeFixes, userFileNames);
 	}
 }
 
+// How runtime error stacks show frames in the additional source files: not at all, one line per run of frames, or all
+export type LibraryStackFrames = 'hidden' | 'collapsed' | 'shown';
+
 // Pretty print runtime errors with lines numbers
 export class UserCodeRuntimeError extends UserCodeError {
 	private readonly error: Error;
-	private readonly sourceMap: SourceMapConsumer;
-	private readonly stackFrames: StackFrame[];
+	// Frames in the user and library files with their original locations, mapped up front so the source maps can be released
+	private readonly mappedFrames: { functionName: string | null; location: UserCodeLocation; library: boolean }[];
 
-	protected constructor(error: Error, sourceMap: SourceMapConsumer) {
+	protected constructor(
+		error: Error,
+		sourceMaps: ArtifactSourceMaps,
+		private readonly libraryStackFrames: LibraryStackFrames,
+		requireUserCodeFrame: boolean = true,
+	) {
 		super();
 		this.error = error;
-		this.sourceMap = sourceMap;
-		this.stackFrames = parse(this.error);
-		const userCodeFrame = this.stackFrames.find(frame => frame.getFileName() === USER_CODE_FILENAME);
-		if (userCodeFrame === undefined) {
+		this.mappedFrames = parse(this.error)
+			.filter(callSite => sourceMaps.has(callSite.getFileName() ?? ''))
+			.map(callSite => ({
+				functionName: callSite.getFunctionName(),
+				location: getOriginalLocation(
+					sourceMaps,
+					callSite.getFileName()!,
+					callSite.getLineNumber()!,
+					callSite.getColumnNumber()!,
+				),
+				library: sourceMaps.get(callSite.getFileName()!)!.library === true,
+			}));
+		if (requireUserCodeFrame && !this.mappedFrames.some(frame => !frame.library)) {
 			this.error.message =
 				'Error: Runtime error detected outside of user code execution path. This is most likely a bug in the additional library source.\nInherited from:\n' +
 				this.error.message;
@@ -379,59 +1204,379 @@ export class UserCodeRuntimeError extends UserCodeError {
 	}
 
 	public get stack(): string {
-		const stackWithoutHarness = this.stackFrames
-			.filter(callSite => callSite.getFileName()?.endsWith(USER_CODE_FILENAME))
-			.filter(callSite => {
-				if (callSite.getFileName() === undefined) {
-					return false;
+		const frames = this.mappedFrames.filter(
+			frame => frame.location.line !== null && (!frame.library || this.libraryStackFrames !== 'hidden'),
+		);
+		const lines: string[] = [];
+		for (let index = 0; index < frames.length; index++) {
+			const { functionName, location, library } = frames[index];
+			let line = 'at ' + functionName + '(' + formatLocation(location) + ')';
+			// A run of library frames is shown as its innermost frame
+			if (library && this.libraryStackFrames === 'collapsed') {
+				let end = index + 1;
+				while (end < frames.length && frames[end].library) {
+					end++;
 				}
-				const mappedLocation = this.sourceMap.originalPositionFor({
-					line: callSite.getLineNumber()!,
-					column: callSite.getColumnNumber()!,
-				});
-				return mappedLocation.line !== null;
-			});
-		return stackWithoutHarness
-			.map(callSite => {
-				const mappedLocation = this.sourceMap.originalPositionFor({
-					line: callSite.getLineNumber()!,
-					column: callSite.getColumnNumber()!,
-				});
-				const functionName = callSite.getFunctionName();
-				const lineNumber = mappedLocation.line;
-				const columnNumber = mappedLocation.column;
-				return 'at ' + functionName + '(' + lineNumber + ':' + columnNumber + ')';
-			})
-			.join('\n');
+				const hiddenFrames = end - index - 1;
+				if (hiddenFrames > 0) {
+					line += ` [+${hiddenFrames} library frame${hiddenFrames === 1 ? '' : 's'}]`;
+				}
+				index = end - 1;
+			}
+			lines.push(line);
+		}
+		return lines.join('\n');
+	}
+
+	public get location(): UserCodeLocation {
+		return this.mappedFrames.find(frame => !frame.library)?.location ?? { line: 1, column: 1 };
+	}
+
+	public get category(): UserCodeErrorCategory {
+		return 'runtime';
+	}
+
+	// A source map of the single user file, or the source maps of all files of an artifact by module name
+	public static new(
+		error: Error,
+		sourceMap: SourceMapConsumer | ArtifactSourceMaps,
+		libraryStackFrames: LibraryStackFrames = 'hidden',
+	): UserCodeRuntimeError {
+		return new UserCodeRuntimeError(
+			error,
+			sourceMap instanceof Map ? sourceMap : new Map([[USER_CODE_FILENAME, { sourceMap }]]),
+			libraryStackFrames,
+		);
+	}
+
+	// A failure outside the user code, such as a worker thread that stopped without an answer, it has no location
+	public static fromHostError(error: Error): UserCodeRuntimeError {
+		return new UserCodeRuntimeError(error, new Map(), 'hidden', false);
+	}
+
+	// Parses the source maps of the cache item for this error only, a SourceMapCache reuses them across errors
+	public static async fromCacheItem(
+		error: Error,
+		cacheItem: CacheItem,
+		libraryStackFrames?: LibraryStackFrames,
+	): Promise<UserCodeRuntimeError> {
+		const sourceMaps = await createArtifactSourceMaps(cacheItem);
+		try {
+			return UserCodeRuntimeError.new(error, sourceMaps, libraryStackFrames);
+		} finally {
+			destroyArtifactSourceMaps(sourceMaps);
+		}
+	}
+}
+
+// Compiled artifacts that can not be executed by this runner
+export class UserCodeArtifactError extends UserCodeError {
+	protected constructor(private readonly reason: string) {
+		super();
+	}
+
+	public get message(): string {
+		return `ArtifactError: ${this.reason}. Recompile the user code with preProcess.`;
+	}
+
+	public get stack(): string {
+		return '';
 	}
 
 	public get location(): { line: number; column: number } {
-		const stack = parse(this.error);
-		const userFileStackFrame = stack.find(callSite => callSite.getFileName() === USER_CODE_FILENAME)!;
-		const originalPosition = this.sourceMap.originalPositionFor({
-			line: userFileStackFrame.getLineNumber()!,
-			column: userFileStackFrame.getColumnNumber()!,
-		});
 		return {
-			line: originalPosition.line!,
-			column: originalPosition.column!,
+			line: 1,
+			column: 1,
 		};
 	}
 
-	public static new(error: Error, sourceMap: SourceMapConsumer): UserCodeRuntimeError {
-		return new UserCodeRuntimeError(error, sourceMap);
+	public get category(): UserCodeErrorCategory {
+		return 'artifact';
+	}
+
+	public static new(reason: string): UserCodeArtifactError {
+		return new UserCodeArtifactError(reason);
+	}
+}
+
+// Files of a user code project that can not be compiled together
+export class UserCodeProjectError extends UserCodeError {
+	protected constructor(private readonly reason: string) {
+		super();
+	}
+
+	public get message(): string {
+		return `ProjectError: ${this.reason}`;
+	}
+
+	public get stack(): string {
+		return '';
+	}
+
+	public get location(): { line: number; column: number } {
+		return {
+			line: 1,
+			column: 1,
+		};
+	}
+
+	public get category(): UserCodeErrorCategory {
+		return 'project';
+	}
+
+	public static new(reason: string): UserCodeProjectError {
+		return new UserCodeProjectError(reason);
+	}
+}
+
+// User code that did not settle within its timeout
+export class UserCodeTimeoutError extends UserCodeError {
+	// Mapped up front so the source map can be released
+	private readonly userCodeFrame: { functionName: string | null; location: UserCodeLocation } | undefined;
+
+	protected constructor(
+		public readonly timeout: number,
+		public readonly elapsed: number,
+		error?: Error,
+		sourceMap?: SourceMapConsumer,
+	) {
+		super();
+		// The interrupted user code is only known when the interruption left a stack frame in the user file
+		const callSite =
+			error !== undefined && sourceMap !== undefined
+				? parse(error).find(frame => frame.getFileName() === USER_CODE_FILENAME)
+				: undefined;
+		this.userCodeFrame =
+			callSite !== undefined
+				? {
+						functionName: callSite.getFunctionName(),
+						location: getOriginalLocation(
+							new Map([[USER_CODE_FILENAME, { sourceMap: sourceMap! }]]),
+							USER_CODE_FILENAME,
+							callSite.getLineNumber()!,
+							callSite.getColumnNumber()!,
+						),
+				  }
+				: undefined;
+	}
+
+	public get message(): string {
+		return `TimeoutError: Execution of user code exceeded the timeout of ${this.timeout}ms after ${Math.round(
+			this.elapsed,
+		)}ms`;
+	}
+
+	public get stack(): string {
+		if (this.userCodeFrame === undefined) {
+			return '';
+		}
+		return `at ${this.userCodeFrame.functionName}(${this.location.line}:${this.location.column})`;
+	}
+
+	public get location(): UserCodeLocation {
+		if (this.userCodeFrame === undefined) {
+			return {
+				line: 1,
+				column: 1,
+			};
+		}
+		return this.userCodeFrame.location;
+	}
+
+	public get category(): UserCodeErrorCategory {
+		return 'timeout';
+	}
+
+	public static new(
+		timeout: number,
+		elapsed: number,
+		error?: Error,
+		sourceMap?: SourceMapConsumer,
+	): UserCodeTimeoutError {
+		return new UserCodeTimeoutError(timeout, elapsed, error, sourceMap);
+	}
+}
+
+// Compilation or execution of user code that was stopped through its AbortSignal
+export class UserCodeCancellationError extends UserCodeError {
+	protected constructor(public readonly phase: 'compilation' | 'execution') {
+		super();
+	}
+
+	public get message(): string {
+		return `CancellationError: The ${this.phase} of user code was cancelled`;
+	}
+
+	public get stack(): string {
+		return '';
+	}
+
+	public get location(): { line: number; column: number } {
+		return {
+			line: 1,
+			column: 1,
+		};
+	}
+
+	public get category(): UserCodeErrorCategory {
+		return 'cancellation';
+	}
+
+	public static new(phase: 'compilation' | 'execution'): UserCodeCancellationError {
+		return new UserCodeCancellationError(phase);
+	}
+}
+
+// User code that exceeded a resource limit of its execution, such as the memory limit of a worker thread
+export class UserCodeResourceLimitError extends UserCodeError {
+	protected constructor(public readonly limit: string) {
+		super();
+	}
+
+	public get message(): string {
+		return `ResourceLimitError: Execution of user code exceeded the ${this.limit}`;
+	}
+
+	public get stack(): string {
+		return '';
+	}
+
+	public get location(): { line: number; column: number } {
+		return {
+			line: 1,
+			column: 1,
+		};
+	}
+
+	public get category(): UserCodeErrorCategory {
+		return 'resource-limit';
+	}
+
+	public static new(limit: string): UserCodeResourceLimitError {
+		return new UserCodeResourceLimitError(limit);
+	}
+}
+
+// Returned value that does not match the output type, for artifacts compiled with validateOutput
+export class UserCodeOutputError extends UserCodeError {
+	protected constructor(private readonly mismatch: ValueMismatch) {
+		super();
+	}
+
+	// Path of the offending value from the returned value, such as $.steps[2].name
+	public get path(): string {
+		return this.mismatch.path;
+	}
+
+	public get message(): string {
+		return `OutputError: Returned value does not match the output type at ${this.mismatch.path}: expected ${this.mismatch.expected}, but was ${this.mismatch.actual}`;
+	}
+
+	public get stack(): string {
+		return '';
+	}
+
+	public get location(): { line: number; column: number } {
+		return {
+			line: 1,
+			column: 1,
+		};
+	}
+
+	public get category(): UserCodeErrorCategory {
+		return 'output';
+	}
+
+	public static new(mismatch: ValueMismatch): UserCodeOutputError {
+		return new UserCodeOutputError(mismatch);
+	}
+}
+
+// Arguments passed by the host that do not match the args types, for artifacts compiled with validateArgs
+export class UserCodeArgumentError extends UserCodeError {
+	protected constructor(private readonly mismatch: ValueMismatch) {
+		super();
+	}
+
+	// Path of the offending argument from the arguments tuple, such as $[0].instance.id
+	public get path(): string {
+		return this.mismatch.path;
+	}
+
+	public get message(): string {
+		return `ArgumentError: Host argument mismatch at ${this.mismatch.path}: expected ${this.mismatch.expected}, but was ${this.mismatch.actual}. The arguments passed to the user code do not match its args types`;
+	}
+
+	public get stack(): string {
+		return '';
+	}
+
+	public get location(): { line: number; column: number } {
+		return {
+			line: 1,
+			column: 1,
+		};
+	}
+
+	public get category(): UserCodeErrorCategory {
+		return 'argument';
+	}
+
+	public static new(mismatch: ValueMismatch): UserCodeArgumentError {
+		return new UserCodeArgumentError(mismatch);
+	}
+}
+
+// Args or a result that can not be copied across the clone boundary of the context
+export class UserCodeTransferError extends UserCodeError {
+	protected constructor(
+		public readonly direction: 'args' | 'result',
+		public readonly path: string,
+		private readonly reason: string,
+	) {
+		super();
+	}
+
+	public get message(): string {
+		return `TransferError: The ${
+			this.direction === 'args' ? 'arguments can not be copied into' : 'result can not be copied out of'
+		} the user code at ${this.path}, ${this.reason}`;
+	}
+
+	public get stack(): string {
+		return '';
+	}
+
+	public get location(): { line: number; column: number } {
+		return {
+			line: 1,
+			column: 1,
+		};
+	}
+
+	public get category(): UserCodeErrorCategory {
+		return 'transfer';
+	}
+
+	public static new(direction: 'args' | 'result', path: string, reason: string): UserCodeTransferError {
+		return new UserCodeTransferError(direction, path, reason);
 	}
 }
 
 // Redirect the execution harness errors to the user code type signature
 export class ExecutionHarnessTypeError extends UserCodeTypeError {
+	// Fixes follow from the signature the harness expects, the language service does not know about it
+	private readonly harnessFixes: UserCodeFix[] = [];
+
 	constructor(
 		protected diagnostic: ts.Diagnostic,
 		protected sources: Map<string, ts.SourceFile>,
 		protected typeChecker: ts.TypeChecker,
 		protected mapDiagnosticMessage: (diagnostic: ts.Diagnostic) => string[],
+		getCodeFixes?: (diagnostic: ts.Diagnostic) => readonly ts.CodeFixAction[],
+		userFileNames?: Map<string, string>,
 	) {
-		super(diagnostic, sources, typeChecker, mapDiagnosticMessage);
+		super(diagnostic, sources, typeChecker, mapDiagnosticMessage, getCodeFixes, userFileNames);
 
 		const diagnosticNode = UserCodeError.getDescendentAtLocation(
 			sources.get(EXECUTION_HARNESS_FILENAME)!,
@@ -443,63 +1588,106 @@ export class ExecutionHarnessTypeError extends UserCodeTypeError {
 			throw new Error('Unable to locate diagnostic node: ' + this.diagnostic.messageText);
 		}
 
-		const defaultExportSymbol = this.defaultExportSymbol;
-		const defaultExportNode = this.defaultExportNode;
-		// No default export
-		if (defaultExportSymbol == undefined || defaultExportNode === undefined) {
+		const userExportSymbol = this.userExportSymbol;
+		const userExportNode = this.userExportNode;
+		const isDefaultExport = this.exportName === DEFAULT_EXPORT_NAME;
+		const expectedExport = `Expected ${
+			isDefaultExport ? 'a default export function' : `an exported function "${this.exportName}"`
+		} with the signature: "(...args: ${this.argumentTypeNode.getText()}) => ${this.outputTypeNode.getText()}".`;
+		// No export of the expected name
+		if (userExportSymbol == undefined || userExportNode === undefined) {
 			this.diagnostic.file = this.sources.get(USER_CODE_FILENAME)!;
 			this.diagnostic.start = this.diagnostic.file.getStart();
 			this.diagnostic.length = this.diagnostic.file.getEnd() - this.diagnostic.start;
-			this.diagnostic.messageText = `No default export. Expected a default export function with the signature: "(...args: ${this.argumentTypeNode.getText()}) => ${this.outputTypeNode.getText()}".`;
+			this.diagnostic.messageText = `${
+				isDefaultExport ? 'No default export' : `No export named "${this.exportName}"`
+			}. ${expectedExport}`;
+			const userFile = this.diagnostic.file;
+			const separator = userFile.text === '' || userFile.text.endsWith('\n') ? '' : '\n';
+			this.harnessFixes.push({
+				description: `Add ${
+					isDefaultExport ? 'a default export function' : `an exported function "${this.exportName}"`
+				} with the expected signature`,
+				edits: [
+					createUserCodeTextEdit(
+						userFile,
+						userFile.text.length,
+						userFile.text.length,
+						`${separator}export ${
+							isDefaultExport ? 'default function ' : `function ${this.exportName}`
+						}(...args: ${this.argumentTypeNode.getText()}): ${this.expectedOutputTypeNode.getText()} {\n  throw new Error('Not implemented');\n}\n`,
+					),
+				],
+			});
 			return;
 		}
 
-		const callSignature = this.defaultExportNodeType?.getCallSignatures()?.[0];
+		const callSignature = this.userExportNodeType?.getCallSignatures()?.[0];
 
-		// Default export is not a function
+		// Export is not a function
 		if (callSignature === undefined) {
 			this.diagnostic.file = this.sources.get(USER_CODE_FILENAME)!;
-			this.diagnostic.start = defaultExportNode.getStart();
-			this.diagnostic.length = defaultExportNode.getEnd()! - defaultExportNode.getStart()!;
-			this.diagnostic.messageText = `Default export is not a valid function. Expected a default export function with the signature: "(...args: ${this.argumentTypeNode.getText()}) => ${this.outputTypeNode.getText()}".`;
+			this.diagnostic.start = userExportNode.getStart();
+			this.diagnostic.length = userExportNode.getEnd()! - userExportNode.getStart()!;
+			this.diagnostic.messageText = `${
+				isDefaultExport ? 'Default export' : `Export "${this.exportName}"`
+			} is not a valid function. ${expectedExport}`;
 			return;
 		}
-		// Errors in the return type of the user code default export
+		// Errors in the return type of the user code export
 		if (diagnosticNode === this.executionHarnessResultNode || diagnosticNode === this.executionHarnessAsyncResultNode) {
 			const returnType = callSignature.getReturnType();
-			const defaultExportedFunctionNodeReturnTypeNode = this.defaultExportedFunctionReturnNode;
+			const exportedFunctionNodeReturnTypeNode = this.exportedFunctionReturnNode;
 			// Function declares return type
-			if (defaultExportedFunctionNodeReturnTypeNode !== undefined) {
-				this.diagnostic.start = defaultExportedFunctionNodeReturnTypeNode.getStart();
+			if (exportedFunctionNodeReturnTypeNode !== undefined) {
+				this.diagnostic.start = exportedFunctionNodeReturnTypeNode.getStart();
 				this.diagnostic.length =
-					defaultExportedFunctionNodeReturnTypeNode.getEnd() - defaultExportedFunctionNodeReturnTypeNode.getStart();
+					exportedFunctionNodeReturnTypeNode.getEnd() - exportedFunctionNodeReturnTypeNode.getStart();
 			}
 			// Function does not declare a return type, just return the whole signature
 			else {
-				this.diagnostic.start = defaultExportNode.getStart();
-				this.diagnostic.length = defaultExportNode.getEnd() - this.diagnostic.start;
+				this.diagnostic.start = userExportNode.getStart();
+				this.diagnostic.length = userExportNode.getEnd() - this.diagnostic.start;
 			}
 
 			this.diagnostic.file = this.sources.get(USER_CODE_FILENAME)!;
 			this.diagnostic.messageText = `Incorrect return type. Expected: '${this.outputTypeNode.getText()}', Actual: '${this.typeChecker.typeToString(
 				returnType,
 			)}'.`;
+			if (exportedFunctionNodeReturnTypeNode !== undefined) {
+				// Async functions have to keep declaring a promise
+				const isAsync = ts
+					.getModifiers(this.exportedFunctionNode as ts.FunctionLikeDeclaration)
+					?.some(modifier => modifier.kind === ts.SyntaxKind.AsyncKeyword);
+				const expectedType = this.expectedOutputTypeNode.getText();
+				this.harnessFixes.push({
+					description: `Change the return type to '${expectedType}'`,
+					edits: [
+						createUserCodeTextEdit(
+							this.diagnostic.file,
+							exportedFunctionNodeReturnTypeNode.getStart(),
+							exportedFunctionNodeReturnTypeNode.getEnd(),
+							isAsync ? `Promise<${expectedType}>` : expectedType,
+						),
+					],
+				});
+			}
 			return;
 		}
 
-		// Errors in the argument type of the user code default export
+		// Errors in the argument type of the user code export
 		if (
-			diagnosticNode === this.executionHarnessDefaultFunctionCallNode ||
-			diagnosticNode === this.executionHarnessDefaultFunctionIdentifierNode ||
+			diagnosticNode === this.executionHarnessExportFunctionCallNode ||
+			diagnosticNode === this.executionHarnessExportFunctionIdentifierNode ||
 			diagnosticNode === this.executionHarnessArgumentsNode
 		) {
 			const parameters = callSignature.getParameters();
 
-			// No parameters on default exported function, just return the whole signature
+			// No parameters on the exported function, just return the whole signature
 			if (parameters.length === 0) {
 				this.diagnostic.file = this.sources.get(USER_CODE_FILENAME);
-				this.diagnostic.start = defaultExportNode.getStart();
-				this.diagnostic.length = defaultExportNode.getEnd() - this.diagnostic.start;
+				this.diagnostic.start = userExportNode.getStart();
+				this.diagnostic.length = userExportNode.getEnd() - this.diagnostic.start;
 				this.diagnostic.messageText = `Incorrect argument type. Expected: '${this.argumentTypeNode.getText()}', Actual: '[${parameters
 					.map(p => this.typeChecker.typeToString(this.typeChecker.getTypeOfSymbolAtLocation(p, this.diagnostic.file!)))
 					.join(', ')}]'.`;
@@ -519,79 +1707,94 @@ export class ExecutionHarnessTypeError extends UserCodeTypeError {
 	}
 
 	public get stack(): string {
-		return (
-			'at ' +
-			(this.defaultExportedFunctionNode?.name?.getText() ?? '') +
-			'(' +
-			this.location.line +
-			':' +
-			this.location.column +
-			')'
-		);
+		return 'at ' + (this.exportedFunctionNode?.name?.getText() ?? '') + '(' + formatLocation(this.location) + ')';
 	}
 
-	public get location(): { line: number; column: number } {
+	public get location(): UserCodeLocation {
 		const userFile = this.sources.get(USER_CODE_FILENAME)!;
 		if (this.diagnostic.start === undefined) {
 			return {
 				line: 1,
 				column: 1,
+				...this.userFileNameProperty,
 			};
 		}
 		const location = userFile.getLineAndCharacterOfPosition(this.diagnostic.start);
 		return {
 			line: location.line + 1,
 			column: location.character + 1,
+			...this.userFileNameProperty,
 		};
 	}
 
-	protected get defaultExportSymbol(): ts.Symbol | undefined {
+	public get category(): UserCodeErrorCategory {
+		return 'harness';
+	}
+
+	public get fixes(): UserCodeFix[] {
+		return this.harnessFixes;
+	}
+
+	protected get userExportSymbol(): ts.Symbol | undefined {
 		const userFile = this.sources.get(USER_CODE_FILENAME)!;
 
 		const userFileSymbol = this.typeChecker.getSymbolAtLocation(userFile);
 		if (userFileSymbol === undefined) return undefined;
 		const userFileExports = this.typeChecker.getExportsOfModule(userFileSymbol);
-		return userFileExports.find(symbol => symbol.escapedName === 'default');
+		return userFileExports.find(symbol => symbol.escapedName === this.exportName);
+	}
+
+	// Name of the export the harness imports from the user code
+	protected get exportName(): string {
+		const executionHarness = this.sources.get(EXECUTION_HARNESS_FILENAME)!;
+		const importClause = executionHarness.statements
+			.filter(ts.isImportDeclaration)
+			.find(statement => (statement.moduleSpecifier as ts.StringLiteral).text === USER_CODE_FILENAME)!.importClause!;
+		if (importClause.name !== undefined) {
+			return DEFAULT_EXPORT_NAME;
+		}
+		const importSpecifier = (importClause.namedBindings as ts.NamedImports).elements[0];
+		return (importSpecifier.propertyName ?? importSpecifier.name).text;
 	}
 
-	protected get defaultExportNode(): ts.Node | undefined {
-		const defaultExportSymbol = this.defaultExportSymbol;
-		if (defaultExportSymbol === undefined) return undefined;
-		const node = defaultExportSymbol.valueDeclaration ?? defaultExportSymbol.declarations?.[0];
+	protected get userExportNode(): ts.Node | undefined {
+		const userExportSymbol = this.userExportSymbol;
+		if (userExportSymbol === undefined) return undefined;
+		const node = userExportSymbol.valueDeclaration ?? userExportSymbol.declarations?.[0];
 		if (node === undefined) return undefined;
 		return node;
 	}
 
-	protected get defaultExportedFunctionSymbol(): ts.Symbol | undefined {
-		const defaultExportSymbol = this.defaultExportSymbol;
-		if (defaultExportSymbol === undefined) return undefined;
-		let unaliasedDefaultExportSymbol = defaultExportSymbol;
+	protected get exportedFunctionSymbol(): ts.Symbol | undefined {
+		const userExportSymbol = this.userExportSymbol;
+		if (userExportSymbol === undefined) return undefined;
+		let unaliasedDefaultExportSymbol = userExportSymbol;
 		try {
-			unaliasedDefaultExportSymbol = this.typeChecker.getAliasedSymbol(defaultExportSymbol);
+			unaliasedDefaultExportSymbol = this.typeChecker.getAliasedSymbol(userExportSymbol);
 		} catch {}
 		if ((unaliasedDefaultExportSymbol.flags & ts.SymbolFlags.Function) === 0) return undefined;
 		return unaliasedDefaultExportSymbol;
 	}
 
-	protected get defaultExportNodeType(): ts.Type | undefined {
-		const defaultExportNode = this.defaultExportNode;
-		if (defaultExportNode === undefined) return undefined;
-		if (ts.isExportAssignment(defaultExportNode)) {
-			return this.typeChecker.getTypeAtLocation(defaultExportNode.expression);
+	protected get userExportNodeType(): ts.Type | undefined {
+		const userExportNode = this.userExportNode;
+		if (userExportNode === undefined) return undefined;
+		if (ts.isExportAssignment(userExportNode)) {
+			return this.typeChecker.getTypeAtLocation(userExportNode.expression);
 		}
-		return this.typeChecker.getTypeAtLocation(defaultExportNode);
+		return this.typeChecker.getTypeAtLocation(userExportNode);
 	}
 
-	protected get defaultExportedFunctionNode(): ts.SignatureDeclaration | undefined {
-		const node = this.defaultExportedFunctionSymbol?.valueDeclaration;
+	protected get exportedFunctionNode(): ts.SignatureDeclaration | undefined {
+		const node = this.exportedFunctionSymbol?.valueDeclaration;
 		if (!ts.isFunctionLike(node)) return undefined;
 		return node;
 	}
 
-	protected get defaultExportedFunctionReturnNode(): ts.TypeNode | undefined {
-		const defaultExportedFunctionNode = this.defaultExportedFunctionNode;
-		if (defaultExportedFunctionNode === undefined) return undefined;
-		return defaultExportedFunctionNode.type;
+	protected get exportedFunctionReturnNode(): ts.TypeNode | undefined {
+		const exportedFunctionNode = this.exportedFunctionNode;
+		if (exportedFunctionNode === undefined) return undefined;
+		return exportedFunctionNode.type;
 	}
 
 	protected get executionHarnessResultNode(): ts.Identifier {
@@ -604,7 +1807,7 @@ export class ExecutionHarnessTypeError extends UserCodeTypeError {
 		return binaryExpression.left as ts.Identifier;
 	}
 
-	protected get executionHarnessDefaultFunctionCallNode(): ts.CallExpression {
+	protected get executionHarnessExportFunctionCallNode(): ts.CallExpression {
 		const binaryExpression = this.executionHarnessExpressionStatementNode;
 		return binaryExpression.right as ts.CallExpression;
 	}
@@ -627,12 +1830,12 @@ export class ExecutionHarnessTypeError extends UserCodeTypeError {
 	}
 
 	protected get executionHarnessArgumentsNode(): ts.SyntaxList {
-		const callExpression = this.executionHarnessDefaultFunctionCallNode;
+		const callExpression = this.executionHarnessExportFunctionCallNode;
 		return callExpression.getChildren().find(c => c.kind === ts.SyntaxKind.SyntaxList)! as ts.SyntaxList;
 	}
 
-	protected get executionHarnessDefaultFunctionIdentifierNode(): ts.Identifier {
-		const callExpression = this.executionHarnessDefaultFunctionCallNode;
+	protected get executionHarnessExportFunctionIdentifierNode(): ts.Identifier {
+		const callExpression = this.executionHarnessExportFunctionCallNode;
 		return callExpression.expression as ts.Identifier;
 	}
 
@@ -651,6 +1854,13 @@ export class ExecutionHarnessTypeError extends UserCodeTypeError {
 		return variableDeclaration.declarations[0].type!;
 	}
 
+	// The output type as passed to preProcess, the harness declares its result as `outputType | Promise<outputType>`
+	protected get expectedOutputTypeNode(): ts.TypeNode {
+		const unionTypeNode = this.outputTypeNode as ts.UnionTypeNode;
+		const promiseTypeNode = unionTypeNode.types[unionTypeNode.types.length - 1] as ts.TypeReferenceNode;
+		return promiseTypeNode.typeArguments![0];
+	}
+
 	protected get outputTypeNode(): ts.TypeNode {
 		const moduleBlock = this.globalModuleDeclarationBlock;
 		const variableDeclaration = UserCodeError.getDescendentNodes(
@@ -677,6 +1887,178 @@ function printTree(node: ts.Node | ts.Node[], level = 0): string {
 	return returnString;
 }
 
+type PositionalPreProcessParams = [
+	outputType?: string,
+	argsTypes?: string[],
+	additionalSourceFiles?: ts.SourceFile[] | UserCodeLibrary,
+	signal?: AbortSignal,
+];
+
+// Check the file names of a project and return the code of its entry point and the other user files by module name
+function getProjectFiles(
+	project: UserCodeProject,
+	library: UserCodeLibrary,
+): Result<
+	{ entryPointCode: string; files: { moduleFileName: string; fileName: string; text: string }[] },
+	UserCodeError[]
+> {
+	if (!Object.prototype.hasOwnProperty.call(project.files, project.entryPoint)) {
+		return Result.Err([UserCodeProjectError.new(`Entry point "${project.entryPoint}" is not one of the user files`)]);
+	}
+	const moduleNames = new Set([
+		USER_CODE_FILENAME,
+		EXECUTION_HARNESS_FILENAME,
+		...library.sourceFiles.map(sourceFile => removeExt(sourceFile.fileName)),
+	]);
+	const files: { moduleFileName: string; fileName: string; text: string }[] = [];
+	for (const [fileName, text] of Object.entries(project.files)) {
+		if (fileName === project.entryPoint) {
+			continue;
+		}
+		const moduleName = getProjectModuleName(project.entryPoint, fileName);
+		if (moduleName.startsWith('../')) {
+			return Result.Err([
+				UserCodeProjectError.new(`User file "${fileName}" is outside the directory of the entry point`),
+			]);
+		}
+		if (moduleNames.has(moduleName)) {
+			return Result.Err([
+				UserCodeProjectError.new(`User file "${fileName}" conflicts with another file of the same name`),
+			]);
+		}
+		moduleNames.add(moduleName);
+		files.push({ moduleFileName: moduleName + path.posix.extname(fileName), fileName, text });
+	}
+	return Result.Ok({ entryPointCode: project.files[project.entryPoint], files });
+}
+
+function positionalPreProcessOptions([
+	outputType,
+	argsTypes,
+	additionalSourceFiles,
+	signal,
+]: PositionalPreProcessParams): PreProcessOptions {
+	return { outputType, argsTypes, additionalSourceFiles, signal };
+}
+
+type PositionalExecuteUserCodeParams<ArgsType extends any[]> = [
+	args: ArgsType,
+	outputType?: string,
+	argsTypes?: string[],
+	timeout?: number,
+	additionalSourceFiles?: ts.SourceFile[] | UserCodeLibrary,
+	context?: vm.Context,
+	signal?: AbortSignal,
+];
+
+function positionalExecuteUserCodeOptions<ArgsType extends any[]>([
+	args,
+	outputType,
+	argsTypes,
+	timeout,
+	additionalSourceFiles,
+	context,
+	signal,
+]: PositionalExecuteUserCodeParams<ArgsType>): ExecuteUserCodeOptions<ArgsType> {
+	return { args, outputType, argsTypes, timeout, additionalSourceFiles, context, signal };
+}
+
+// Compilation is synchronous, so let pending abort events fire before checking the signal between its phases
+async function isAborted(signal: AbortSignal | undefined): Promise<boolean> {
+	if (signal === undefined) {
+		return false;
+	}
+	await new Promise(resolve => setImmediate(resolve));
+	return signal.aborted;
+}
+
+/**
+ * Suggestion diagnostics, such as usage of deprecated APIs, are only exposed by a language service.
+ *
+ * The service is handed the source files of the compiler host instead of parsing them again, so only the checking of
+ * the given files is repeated. It is disposed before returning.
+ */
+function getSuggestionDiagnostics(
+	rootNames: string[],
+	compilerOptions: ts.CompilerOptions,
+	compilerHost: ts.CompilerHost,
+	fileNames: string[],
+): ts.Diagnostic[] {
+	const getSourceFile = (fileName: string) => compilerHost.getSourceFile(fileName, ts.ScriptTarget.ESNext)!;
+	const host: ts.LanguageServiceHost = {
+		getCompilationSettings: () => compilerOptions,
+		getScriptFileNames: () => rootNames,
+		getScriptVersion: () => '0',
+		getScriptSnapshot: fileName => {
+			const sourceFile = compilerHost.getSourceFile(fileName, ts.ScriptTarget.ESNext);
+			return sourceFile !== undefined ? ts.ScriptSnapshot.fromString(sourceFile.text) : undefined;
+		},
+		getCurrentDirectory: () => compilerHost.getCurrentDirectory(),
+		getDefaultLibFileName: options => compilerHost.getDefaultLibFileName(options),
+		fileExists: fileName => compilerHost.fileExists(fileName),
+		readFile: fileName => compilerHost.readFile(fileName),
+		directoryExists: compilerHost.directoryExists,
+	};
+	const documentRegistry: ts.DocumentRegistry = {
+		acquireDocument: getSourceFile,
+		acquireDocumentWithKey: getSourceFile,
+		updateDocument: getSourceFile,
+		updateDocumentWithKey: getSourceFile,
+		getKeyForCompilationSettings: () => '' as ts.DocumentRegistryBucketKey,
+		releaseDocument: () => {},
+		releaseDocumentWithKey: () => {},
+		reportStats: () => '',
+	};
+	const languageService = ts.createLanguageService(host, documentRegistry);
+	try {
+		return fileNames.flatMap(fileName => languageService.getSuggestionDiagnostics(fileName));
+	} finally {
+		languageService.dispose();
+	}
+}
+
+// Stack frame location, prefixed with the file name for errors in a project
+function formatLocation(location: UserCodeLocation): string {
+	return `${location.fileName !== undefined ? `${location.fileName}:` : ''}${location.line}:${location.column}`;
+}
+
+function createUserCodeTextEdit(
+	userFile: ts.SourceFile,
+	start: number,
+	end: number,
+	newText: string,
+): UserCodeTextEdit {
+	return {
+		range: {
+			start: getUserCodePosition(userFile, start),
+			end: getUserCodePosition(userFile, end),
+		},
+		newText,
+	};
+}
+
+function getUserCodePosition(userFile: ts.SourceFile, offset: number): UserCodePosition {
+	const { line, character } = userFile.getLineAndCharacterOfPosition(offset);
+	return {
+		line: line + 1,
+		column: character + 1,
+		offset,
+	};
+}
+
+function getDiagnosticSeverity(category: ts.DiagnosticCategory): UserCodeErrorSeverity {
+	switch (category) {
+		case ts.DiagnosticCategory.Warning:
+			return 'warning';
+		case ts.DiagnosticCategory.Suggestion:
+			return 'suggestion';
+		case ts.DiagnosticCategory.Message:
+			return 'message';
+		default:
+			return 'error';
+	}
+}
+
 function getDiagnosticCodes(diagnostic: ts.Diagnostic): integer[] {
 	const codes: integer[] = [];
 	codes.push(diagnostic.code);
@@ -696,7 +2078,3 @@ function getDiagnosticMessageChainCodes(diagnosticMessageChain: ts.DiagnosticMes
 	}
 	return codes;
 }
-
-function removeExt(pathname: string): string {
-	return path.basename(pathname).replace(path.extname(pathname), '');
-}
@@ -0,0 +1,184 @@
+import vm from 'vm';
+import { Result } from './utils/monads.js';
+import type { CacheItem } from './CacheItem.js';
+import type { SourceMapCache } from './SourceMapCache.js';
+import type { LibraryStackFrames } from './UserCodeRunner.js';
+import {
+	DEFAULT_EXPORT_NAME,
+	evaluateExecutionHarness,
+	evaluateWithinTimeout,
+	linkUserCodeModules,
+	USER_CODE_FILENAME,
+} from './executionHarness.js';
+import type { HarnessEvaluation } from './executionHarness.js';
+import { validateArgs, validateOutput } from './valueValidation.js';
+import { cloneArgs, cloneResult, getCloneRealm } from './cloneBoundary.js';
+import type { CloneRealm } from './cloneBoundary.js';
+import type { UserCodeConsole } from './UserCodeConsole.js';
+import { createUserCodeContext } from './globalsPresets.js';
+import {
+	UserCodeCancellationError,
+	UserCodeError,
+	UserCodeRuntimeError,
+	UserCodeTimeoutError,
+} from './UserCodeRunner.js';
+
+export interface UserCodeSessionOptions {
+	timeout?: number; // Milliseconds until the top level code of the user code must settle, defaults to 5000
+	context?: vm.Context; // Context shared by all invocations of the session, a fresh one by default
+	signal?: AbortSignal; // Cancels the evaluation of the top level code when aborted
+	libraryStackFrames?: LibraryStackFrames; // Frames in the additional source files in runtime error stacks, hidden by default
+	cloneBoundary?: boolean; // Copy the args of every invocation into the context and its result out of it, off by default
+	console?: UserCodeConsole; // Captures the console output of the top level code and of every invocation
+}
+
+export interface UserCodeInvocationOptions {
+	timeout?: number; // Milliseconds until the result of the invocation must settle, defaults to 5000
+	signal?: AbortSignal; // Cancels the invocation when aborted
+}
+
+// Calls the export as a script, so that the vm timeout interrupts the synchronous part of every invocation
+const invocationScript = new vm.Script('__export(...__args)');
+
+/**
+ * Compiled user code that is linked and evaluated once, and then invoked any number of times.
+ *
+ * All invocations share the context and the module state of the session, so globals and module variables set by one
+ * invocation are seen by the next. Sessions run on the calling thread, also for runners with an execution pool.
+ */
+export class UserCodeSession<ArgsType extends any[] = any[], ReturnType = any> {
+	protected constructor(
+		private readonly cacheItem: CacheItem,
+		private readonly context: vm.Context,
+		private readonly sourceMapCache: SourceMapCache,
+		private readonly libraryStackFrames: LibraryStackFrames | undefined,
+		// Builtins of the context for copying args into it, when the session has a clone boundary
+		private readonly cloneRealm: CloneRealm | undefined,
+		private readonly userConsole: UserCodeConsole | undefined,
+	) {}
+
+	public async invoke(
+		args: ArgsType,
+		options?: UserCodeInvocationOptions,
+	): Promise<Result<ReturnType, UserCodeError[]>> {
+		const { timeout = 5000, signal } = options ?? {};
+		if (signal?.aborted) {
+			return Result.Err([UserCodeCancellationError.new('execution')]);
+		}
+
+		const argsValidation = validateArgs(args, this.cacheItem.argsSchema);
+		if (argsValidation.isErr()) {
+			return Result.Err(argsValidation.unwrapErr());
+		}
+
+		let contextArgs = args;
+		if (this.cloneRealm !== undefined) {
+			const clonedArgs = cloneArgs(args, this.cloneRealm);
+			if (clonedArgs.isErr()) {
+				return Result.Err(clonedArgs.unwrapErr());
+			}
+			contextArgs = clonedArgs.unwrap();
+		}
+
+		this.context.__args = contextArgs;
+		const result = await this.evaluate<ReturnType>(
+			() =>
+				evaluateWithinTimeout(
+					vmTimeout => Promise.resolve(invocationScript.runInContext(this.context, { timeout: vmTimeout })),
+					timeout,
+					signal,
+				),
+			timeout,
+		);
+		if (result.isErr() || this.cloneRealm === undefined) {
+			return result.isOk() ? validateOutput<ReturnType>(result.unwrap(), this.cacheItem.outputSchema) : result;
+		}
+		const clonedResult = cloneResult<ReturnType>(result.unwrap());
+		return clonedResult.isOk()
+			? validateOutput<ReturnType>(clonedResult.unwrap(), this.cacheItem.outputSchema)
+			: clonedResult;
+	}
+
+	// Link the modules of the cache item and run their top level code, errors are mapped with the source map cache
+	public static async new<ArgsType extends any[] = any[], ReturnType = any>(
+		cacheItem: CacheItem,
+		sourceMapCache: SourceMapCache,
+		options?: UserCodeSessionOptions,
+	): Promise<Result<UserCodeSession<ArgsType, ReturnType>, UserCodeError[]>> {
+		const {
+			timeout = 5000,
+			context: providedContext,
+			signal,
+			libraryStackFrames,
+			cloneBoundary = false,
+			console: userConsole,
+		} = options ?? {};
+		if (providedContext !== undefined && cacheItem.globals !== undefined) {
+			throw new Error(
+				`A context can not be provided for user code compiled with the "${cacheItem.globals}" globals preset`,
+			);
+		}
+		if (signal?.aborted) {
+			return Result.Err([UserCodeCancellationError.new('execution')]);
+		}
+
+		const context = providedContext ?? createUserCodeContext(cacheItem.globals);
+		// The builtins are taken before the top level code of the user code could replace them
+		const cloneRealm = cloneBoundary ? getCloneRealm(context) : undefined;
+		userConsole?.install(context);
+		const { entryModule, userModule } = await linkUserCodeModules(cacheItem.jsFileMap, context);
+		const session = new UserCodeSession<ArgsType, ReturnType>(
+			cacheItem,
+			context,
+			sourceMapCache,
+			libraryStackFrames,
+			cloneRealm,
+			userConsole,
+		);
+		const evaluation = await session.evaluate(() => evaluateExecutionHarness(entryModule, timeout, signal), timeout);
+		if (evaluation.isErr()) {
+			return Result.Err(evaluation.unwrapErr());
+		}
+
+		const exportName = cacheItem.metadata?.signature.exportName ?? DEFAULT_EXPORT_NAME;
+		context.__export = (userModule.namespace as { [exportName: string]: unknown })[exportName];
+		return Result.Ok(session);
+	}
+
+	private async evaluate<T>(
+		evaluate: () => Promise<HarnessEvaluation>,
+		timeout: number,
+	): Promise<Result<T, UserCodeError[]>> {
+		try {
+			const evaluation = await evaluate();
+			if (evaluation.type === 'cancelled') {
+				return Result.Err([UserCodeCancellationError.new('execution')]);
+			}
+			if (evaluation.type === 'timeout') {
+				return Result.Err([
+					evaluation.error !== undefined
+						? await this.sourceMapCache.use(this.cacheItem, sourceMaps =>
+								UserCodeTimeoutError.new(
+									timeout,
+									evaluation.elapsed,
+									evaluation.error,
+									sourceMaps.get(USER_CODE_FILENAME)!.sourceMap,
+								),
+						  )
+						: UserCodeTimeoutError.new(timeout, evaluation.elapsed),
+				]);
+			}
+			return Result.Ok(evaluation.value as T);
+		} catch (error: any) {
+			return Result.Err([
+				await this.sourceMapCache.use(this.cacheItem, sourceMaps =>
+					UserCodeRuntimeError.new(error as Error, sourceMaps, this.libraryStackFrames),
+				),
+			]);
+		} finally {
+			if (this.userConsole?.unlocated) {
+				await this.sourceMapCache.use(this.cacheItem, sourceMaps => this.userConsole!.locate(sourceMaps));
+			}
+		}
+	}
+}
@@ -0,0 +1,296 @@
+import os from 'os';
+import { Worker } from 'worker_threads';
+import { Result } from './utils/monads.js';
+import type { CacheItem } from './CacheItem.js';
+import { SourceMapCache } from './SourceMapCache.js';
+import type { ExecutionRequest, ExecutionResponse } from './executionWorker.js';
+import type { LibraryStackFrames } from './UserCodeRunner.js';
+import { validateArgs, validateOutput } from './valueValidation.js';
+import type { UserCodeConsole } from './UserCodeConsole.js';
+import {
+	UserCodeCancellationError,
+	UserCodeError,
+	UserCodeResourceLimitError,
+	UserCodeRuntimeError,
+	UserCodeTimeoutError,
+	UserCodeTransferError,
+} from './UserCodeRunner.js';
+
+// Resolve the worker next to this module, as .ts when running from source
+const EXECUTION_WORKER_URL = new URL(
+	import.meta.url.endsWith('.ts') ? './executionWorker.ts' : './executionWorker.js',
+	import.meta.url,
+);
+
+export interface WorkerExecutionPoolOptions {
+	size?: number; // Maximum number of worker threads, defaults to the number of CPUs
+	memoryLimitMb?: number; // Default heap limit of the worker threads, unlimited when not set
+}
+
+export interface WorkerExecutionOptions {
+	timeout?: number; // Wall-clock limit in milliseconds, defaults to 5000
+	memoryLimitMb?: number; // Heap limit of the worker thread, defaults to the memoryLimitMb of the pool
+	signal?: AbortSignal; // Terminates the worker thread when aborted
+	libraryStackFrames?: LibraryStackFrames; // Frames in the additional source files in runtime error stacks, hidden by default
+	console?: UserCodeConsole; // Captures the console output of the user code, lost when the worker thread is terminated
+}
+
+type WorkerOutcome =
+	| ExecutionResponse
+	| { type: 'terminated'; elapsed: number }
+	| { type: 'cancelled' }
+	| { type: 'exit'; error: Error };
+
+/**
+ * Runs compiled user code in a pool of worker threads.
+ *
+ * Unlike the vm timeout, the timeout of the pool also covers asynchronous user code: a worker that does not answer in
+ * time is terminated and replaced.
+ */
+export class WorkerExecutionPool {
+	private readonly size: number;
+	private readonly memoryLimitMb: number | undefined;
+	// Resource limits are fixed when a worker is spawned, so idle workers are grouped by their memory limit
+	private readonly idleWorkers = new Map<number | undefined, Worker[]>();
+	private readonly waiting: {
+		memoryLimitMb: number | undefined;
+		resolve: (worker: Worker) => void;
+		reject: (error: Error) => void;
+	}[] = [];
+	private workerCount = 0;
+	private destroyed = false;
+	private readonly sourceMapCache = new SourceMapCache();
+
+	constructor(options?: WorkerExecutionPoolOptions) {
+		this.size = options?.size ?? os.cpus().length;
+		this.memoryLimitMb = options?.memoryLimitMb;
+		if (this.size < 1) {
+			throw new Error(`WorkerExecutionPool size must be at least 1, but was: ${this.size}`);
+		}
+		if (this.memoryLimitMb !== undefined) {
+			validateMemoryLimit(this.memoryLimitMb);
+		}
+	}
+
+	public async execute<ArgsType extends any[], ReturnType = any>(
+		cacheItem: CacheItem,
+		args: ArgsType,
+		options?: WorkerExecutionOptions,
+	): Promise<Result<ReturnType, UserCodeError[]>> {
+		const timeout = options?.timeout ?? 5000;
+		const memoryLimitMb = options?.memoryLimitMb ?? this.memoryLimitMb;
+		if (memoryLimitMb !== undefined) {
+			validateMemoryLimit(memoryLimitMb);
+		}
+
+		const signal = options?.signal;
+		if (signal?.aborted) {
+			return Result.Err([UserCodeCancellationError.new('execution')]);
+		}
+
+		const argsValidation = validateArgs(args, cacheItem.argsSchema);
+		if (argsValidation.isErr()) {
+			return Result.Err(argsValidation.unwrapErr());
+		}
+
+		const worker = await this.acquire(memoryLimitMb);
+		// The signal may have been aborted while waiting for a free worker
+		if (signal?.aborted) {
+			this.release(worker, memoryLimitMb, true);
+			return Result.Err([UserCodeCancellationError.new('execution')]);
+		}
+		const userConsole = options?.console;
+		const outcome = await this.run(
+			worker,
+			{
+				jsFileMap: cacheItem.jsFileMap,
+				args,
+				timeout,
+				globals: cacheItem.globals,
+				console:
+					userConsole !== undefined
+						? { maxEntries: userConsole.maxEntries, maxBytes: userConsole.maxBytes }
+						: undefined,
+			},
+			timeout,
+			signal,
+		);
+		this.release(
+			worker,
+			memoryLimitMb,
+			outcome.type !== 'terminated' &&
+				outcome.type !== 'cancelled' &&
+				outcome.type !== 'exit' &&
+				!(outcome.type === 'error' && outcome.uncaught === true),
+		);
+
+		if (userConsole !== undefined && 'console' in outcome && outcome.console !== undefined) {
+			userConsole.append(outcome.console.entries, outcome.console.droppedEntries);
+			if (userConsole.unlocated) {
+				await this.sourceMapCache.use(cacheItem, sourceMaps => userConsole.locate(sourceMaps));
+			}
+		}
+
+		switch (outcome.type) {
+			case 'ok':
+				return validateOutput<ReturnType>(outcome.value, cacheItem.outputSchema);
+			case 'error':
+				return Result.Err([
+					await this.sourceMapCache.use(cacheItem, sourceMaps =>
+						UserCodeRuntimeError.new(outcome.error, sourceMaps, options?.libraryStackFrames),
+					),
+				]);
+			case 'unclonable':
+				if (outcome.thrown) {
+					return Result.Err([
+						UserCodeRuntimeError.fromHostError(
+							new Error(
+								`The error thrown by the user code can not be copied out of the worker thread, ${outcome.reason}`,
+							),
+						),
+					]);
+				}
+				return Result.Err([UserCodeTransferError.new('result', '$', outcome.reason)]);
+			case 'timeout':
+			case 'terminated':
+				return Result.Err([UserCodeTimeoutError.new(timeout, outcome.elapsed)]);
+			case 'cancelled':
+				return Result.Err([UserCodeCancellationError.new('execution')]);
+			case 'exit':
+				if ((outcome.error as NodeJS.ErrnoException).code === 'ERR_WORKER_OUT_OF_MEMORY') {
+					return Result.Err([UserCodeResourceLimitError.new(`memory limit of ${memoryLimitMb}MB`)]);
+				}
+				return Result.Err([UserCodeRuntimeError.fromHostError(outcome.error)]);
+		}
+	}
+
+	// Destroy the parsed source maps kept for a cache item, or for all cache items
+	public releaseSourceMaps(cacheItem?: CacheItem): void {
+		if (cacheItem !== undefined) {
+			this.sourceMapCache.release(cacheItem);
+		} else {
+			this.sourceMapCache.clear();
+		}
+	}
+
+	// Terminate all worker threads, executions still in flight fail
+	public async destroy(): Promise<void> {
+		this.destroyed = true;
+		for (const { reject } of this.waiting.splice(0)) {
+			reject(new Error('WorkerExecutionPool has been destroyed'));
+		}
+		const idleWorkers = [...this.idleWorkers.values()].flat();
+		this.idleWorkers.clear();
+		await Promise.all(idleWorkers.map(worker => worker.terminate()));
+		this.sourceMapCache.clear();
+	}
+
+	private run(
+		worker: Worker,
+		request: ExecutionRequest,
+		timeout: number,
+		signal: AbortSignal | undefined,
+	): Promise<WorkerOutcome> {
+		return new Promise(resolve => {
+			const start = performance.now();
+			const finish = (outcome: WorkerOutcome) => {
+				clearTimeout(timer);
+				signal?.removeEventListener('abort', onAbort);
+				worker.off('message', onMessage);
+				worker.off('error', onError);
+				worker.off('exit', onExit);
+				resolve(outcome);
+			};
+			const onMessage = (response: ExecutionResponse) => {
+				finish(response);
+				// Code of the user may still be running after an uncaught error, the worker is replaced
+				if (response.type === 'error' && response.uncaught === true) {
+					void worker.terminate();
+				}
+			};
+			const onError = (error: Error) => finish({ type: 'exit', error });
+			const onExit = (exitCode: number) =>
+				finish({ type: 'exit', error: new Error(`Execution worker exited unexpectedly with code ${exitCode}`) });
+			// Asynchronous user code is out of reach of the vm timeout in the worker, stop the whole thread instead
+			const timer = setTimeout(() => {
+				finish({ type: 'terminated', elapsed: performance.now() - start });
+				void worker.terminate();
+			}, timeout);
+			const onAbort = () => {
+				finish({ type: 'cancelled' });
+				void worker.terminate();
+			};
+
+			signal?.addEventListener('abort', onAbort, { once: true });
+			worker.on('message', onMessage);
+			worker.on('error', onError);
+			worker.on('exit', onExit);
+			worker.postMessage(request);
+		});
+	}
+
+	private acquire(memoryLimitMb: number | undefined): Promise<Worker> {
+		if (this.destroyed) {
+			return Promise.reject(new Error('WorkerExecutionPool has been destroyed'));
+		}
+		const idleWorker = this.idleWorkers.get(memoryLimitMb)?.pop();
+		if (idleWorker !== undefined) {
+			return Promise.resolve(idleWorker);
+		}
+		if (this.workerCount < this.size) {
+			return Promise.resolve(this.spawn(memoryLimitMb));
+		}
+		// Make room by retiring an idle worker with a different memory limit
+		const retiredWorker = [...this.idleWorkers.values()].find(workers => workers.length > 0)?.pop();
+		if (retiredWorker !== undefined) {
+			void retiredWorker.terminate();
+			this.workerCount--;
+			return Promise.resolve(this.spawn(memoryLimitMb));
+		}
+		return new Promise((resolve, reject) => this.waiting.push({ memoryLimitMb, resolve, reject }));
+	}
+
+	private release(worker: Worker, memoryLimitMb: number | undefined, reusable: boolean): void {
+		if (!reusable) {
+			this.workerCount--;
+		}
+		if (this.destroyed) {
+			void worker.terminate();
+			return;
+		}
+		const next = this.waiting.shift();
+		if (next === undefined) {
+			if (reusable) {
+				this.idleWorkers.set(memoryLimitMb, [...(this.idleWorkers.get(memoryLimitMb) ?? []), worker]);
+			}
+			return;
+		}
+		if (reusable && next.memoryLimitMb === memoryLimitMb) {
+			next.resolve(worker);
+			return;
+		}
+		if (reusable) {
+			void worker.terminate();
+			this.workerCount--;
+		}
+		next.resolve(this.spawn(next.memoryLimitMb));
+	}
+
+	private spawn(memoryLimitMb: number | undefined): Worker {
+		const worker = new Worker(EXECUTION_WORKER_URL, {
+			// Forward --experimental-vm-modules and any loaders the host runs with
+			execArgv: process.execArgv,
+			resourceLimits: memoryLimitMb !== undefined ? { maxOldGenerationSizeMb: memoryLimitMb } : undefined,
+		});
+		// An idle pool must not keep the host process alive, the timeout timer does while executing
+		worker.unref();
+		this.workerCount++;
+		return worker;
+	}
+}
+
+function validateMemoryLimit(memoryLimitMb: number): void {
+	if (!(memoryLimitMb > 0)) {
+		throw new Error(`memoryLimitMb must be greater than 0, but was: ${memoryLimitMb}`);
+	}
+}
@@ -0,0 +1,160 @@
+import vm from 'vm';
+import { types } from 'util';
+import { Result } from './utils/monads.js';
+import { UserCodeError, UserCodeTransferError } from './UserCodeRunner.js';
+
+// Constructors of the builtins values are copied into, taken from a realm before user code can replace them
+export interface CloneRealm {
+	Object: ObjectConstructor;
+	Array: ArrayConstructor;
+	Date: DateConstructor;
+	Map: MapConstructor;
+	Set: SetConstructor;
+}
+
+const HOST_REALM: CloneRealm = { Object, Array, Date, Map, Set };
+
+const realmScript = new vm.Script('({ Object, Array, Date, Map, Set })');
+
+// Call before user code runs in the context, the user code could replace the globals afterwards
+export function getCloneRealm(context: vm.Context): CloneRealm {
+	return realmScript.runInContext(context);
+}
+
+// Where and why a value could not be copied
+class CloneFailure extends Error {
+	constructor(public readonly path: string, public readonly reason: string) {
+		super(`${reason} at ${path}`);
+	}
+}
+
+/**
+ * Deep copy of a value made of the builtins of the realm, without the prototypes, getters or functions of the original.
+ *
+ * Primitives other than symbols, arrays, plain and class objects, dates, maps and sets are copied, class objects as
+ * plain objects of their own enumerable properties. Everything is read with the builtins of the host, so that code of the
+ * other realm does not run while copying.
+ */
+function cloneIntoRealm(value: unknown, realm: CloneRealm): Result<unknown, CloneFailure> {
+	const copies = new Map<object, unknown>();
+	// Objects on the path to the value being copied, seeing one of them again is a cycle
+	const ancestors = new Map<object, string>();
+
+	const clone = (value: unknown, path: string): unknown => {
+		if (typeof value === 'function') {
+			throw new CloneFailure(path, 'functions can not be transferred');
+		}
+		if (typeof value === 'symbol') {
+			throw new CloneFailure(path, 'symbols can not be transferred');
+		}
+		if (typeof value !== 'object' || value === null) {
+			return value;
+		}
+		if (ancestors.has(value)) {
+			throw new CloneFailure(path, `cycles can not be transferred, the value refers back to ${ancestors.get(value)}`);
+		}
+		if (copies.has(value)) {
+			return copies.get(value);
+		}
+		if (types.isProxy(value)) {
+			throw new CloneFailure(path, 'proxies can not be transferred');
+		}
+
+		ancestors.set(value, path);
+		let copy: unknown;
+		if (types.isDate(value)) {
+			copy = new realm.Date(Date.prototype.getTime.call(value));
+		} else if (types.isMap(value)) {
+			const map = new realm.Map();
+			let index = 0;
+			Map.prototype.forEach.call(value, (entryValue: unknown, entryKey: unknown) => {
+				Map.prototype.set.call(
+					map,
+					clone(entryKey, `${path}.keys[${index}]`),
+					clone(entryValue, `${path}.values[${index}]`),
+				);
+				index++;
+			});
+			copy = map;
+		} else if (types.isSet(value)) {
+			const set = new realm.Set();
+			let index = 0;
+			Set.prototype.forEach.call(value, (entryValue: unknown) => {
+				Set.prototype.add.call(set, clone(entryValue, `${path}.values[${index++}]`));
+			});
+			copy = set;
+		} else if (Array.isArray(value)) {
+			const array = new realm.Array();
+			const length = Object.getOwnPropertyDescriptor(value, 'length')!.value as number;
+			for (let index = 0; index < length; index++) {
+				const elementPath = `${path}[${index}]`;
+				defineValue(array, String(index), clone(readOwnValue(value, String(index), elementPath), elementPath));
+			}
+			copy = array;
+		} else {
+			const object = new realm.Object();
+			for (const key of Object.keys(value)) {
+				const propertyPath = appendPropertyPath(path, key);
+				defineValue(object, key, clone(readOwnValue(value, key, propertyPath), propertyPath));
+			}
+			copy = object;
+		}
+		ancestors.delete(value);
+		copies.set(value, copy);
+		return copy;
+	};
+
+	try {
+		return Result.Ok(clone(value, '$'));
+	} catch (error: any) {
+		if (error instanceof CloneFailure) {
+			return Result.Err(error);
+		}
+		throw error;
+	}
+}
+
+// The arguments copied into the realm of the context the user code runs in
+export function cloneArgs<ArgsType extends any[]>(
+	args: ArgsType,
+	realm: CloneRealm,
+): Result<ArgsType, UserCodeError[]> {
+	return toTransferResult(cloneIntoRealm(args, realm) as Result<ArgsType, CloneFailure>, 'args');
+}
+
+// The result of the user code copied out of the realm of its context
+export function cloneResult<ReturnType>(value: unknown): Result<ReturnType, UserCodeError[]> {
+	return toTransferResult(cloneIntoRealm(value, HOST_REALM) as Result<ReturnType, CloneFailure>, 'result');
+}
+
+function toTransferResult<T>(
+	result: Result<T, CloneFailure>,
+	direction: 'args' | 'result',
+): Result<T, UserCodeError[]> {
+	if (result.isErr()) {
+		const { path, reason } = result.unwrapErr();
+		return Result.Err([UserCodeTransferError.new(direction, path, reason)]);
+	}
+	return Result.Ok(result.unwrap());
+}
+
+// Read a data property, accessors would run code of the other realm
+function readOwnValue(object: object, key: string, propertyPath: string): unknown {
+	const descriptor = Object.getOwnPropertyDescriptor(object, key);
+	if (descriptor === undefined) {
+		return undefined;
+	}
+	if (descriptor.get !== undefined || descriptor.set !== undefined) {
+		throw new CloneFailure(propertyPath, 'getters and setters can not be transferred');
+	}
+	return descriptor.value;
+}
+
+// Defining instead of assigning keeps setters of the realm and keys such as __proto__ from taking effect
+function defineValue(object: object, key: string, value: unknown): void {
+	Object.defineProperty(object, key, { value, writable: true, enumerable: true, configurable: true });
+}
+
+function appendPropertyPath(path: string, key: string): string {
+	return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
@@ -0,0 +1,124 @@
+import path from 'path';
+import ts from 'typescript';
+
+export const DEFAULT_COMPILER_OPTIONS: Readonly<ts.CompilerOptions> = {
+	target: ts.ScriptTarget.ESNext,
+	lib: ['lib.esnext.d.ts'],
+};
+
+// Options the execution harness and the in-memory compiler host depend on, they can not be overridden
+const REQUIRED_COMPILER_OPTIONS: Readonly<ts.CompilerOptions> = {
+	module: ts.ModuleKind.ES2022,
+	sourceMap: true,
+};
+
+// Options that change what is emitted or where, the compiler host only collects JS and the user code source map
+const REFUSED_COMPILER_OPTIONS: readonly (keyof ts.CompilerOptions)[] = [
+	'noEmit',
+	'emitDeclarationOnly',
+	'declaration',
+	'declarationMap',
+	'composite',
+	'incremental',
+	'inlineSourceMap',
+	'inlineSources',
+	'outFile',
+	'out',
+	'outDir',
+	'rootDir',
+	'importHelpers',
+	'noEmitHelpers',
+	'plugins',
+];
+
+/**
+ * Merge compiler options over the defaults of the runner, throwing for options the execution harness can not run with.
+ *
+ * The harness awaits the result of the user code at the top level, which needs ES modules and a target of ES2017 or
+ * later.
+ */
+export function createCompilerOptions(providedCompilerOptions: ts.CompilerOptions = {}): ts.CompilerOptions {
+	// Options set to undefined are left out, keeping the defaults of the runner
+	const compilerOptions: ts.CompilerOptions = Object.fromEntries(
+		Object.entries(providedCompilerOptions).filter(([, value]) => value !== undefined),
+	);
+	for (const [name, value] of Object.entries(REQUIRED_COMPILER_OPTIONS)) {
+		if (compilerOptions[name] !== undefined && compilerOptions[name] !== value) {
+			throw new Error(`Compiler option "${name}" can not be overridden, it must be: ${JSON.stringify(value)}`);
+		}
+	}
+	for (const name of REFUSED_COMPILER_OPTIONS) {
+		if (compilerOptions[name] !== undefined && compilerOptions[name] !== false) {
+			throw new Error(`Compiler option "${name}" is not supported by the user code runner`);
+		}
+	}
+	// JSON is not a language level but sorts after ESNext
+	if (
+		compilerOptions.target !== undefined &&
+		(compilerOptions.target < ts.ScriptTarget.ES2017 || compilerOptions.target === ts.ScriptTarget.JSON)
+	) {
+		throw new Error(
+			`Compiler option "target" must be ES2017 or later, but was: ${ts.ScriptTarget[compilerOptions.target]}`,
+		);
+	}
+	const mergedCompilerOptions = { ...DEFAULT_COMPILER_OPTIONS, ...compilerOptions, ...REQUIRED_COMPILER_OPTIONS };
+	// Combinations TypeScript itself rejects would fail every compile, such as exactOptionalPropertyTypes without strict
+	const optionsDiagnostic = getOptionsDiagnostics(mergedCompilerOptions)[0];
+	if (optionsDiagnostic !== undefined) {
+		throw new Error(
+			`Compiler options are invalid: TS${optionsDiagnostic.code} ${ts.flattenDiagnosticMessageText(
+				optionsDiagnostic.messageText,
+				' ',
+			)}`,
+		);
+	}
+	if (mergedCompilerOptions.lib !== undefined && !declaresPromise(mergedCompilerOptions.lib)) {
+		throw new Error(
+			`Compiler option "lib" must declare Promise, which the execution harness awaits, but was: ${JSON.stringify(
+				mergedCompilerOptions.lib,
+			)}`,
+		);
+	}
+	return mergedCompilerOptions;
+}
+
+// Diagnostics of the options alone, from a program without files whose lib files are left empty
+function getOptionsDiagnostics(compilerOptions: ts.CompilerOptions): readonly ts.Diagnostic[] {
+	const compilerHost = ts.createCompilerHost(compilerOptions);
+	compilerHost.getSourceFile = (fileName, languageVersion) =>
+		ts.sys.fileExists(fileName) ? ts.createSourceFile(fileName, '', languageVersion) : undefined;
+	return ts.createProgram({ rootNames: [], options: compilerOptions, host: compilerHost }).getOptionsDiagnostics();
+}
+
+// Whether the lib files or the lib files they reference declare the Promise constructor of ES2015
+function declaresPromise(lib: string[]): boolean {
+	const libDirectory = path.dirname(ts.getDefaultLibFilePath({}));
+	const pending = [...lib];
+	const visited = new Set<string>();
+	while (pending.length > 0) {
+		const fileName = pending.pop()!.toLowerCase();
+		if (fileName === 'lib.es2015.promise.d.ts') {
+			return true;
+		}
+		if (visited.has(fileName)) {
+			continue;
+		}
+		visited.add(fileName);
+		const text = ts.sys.readFile(path.join(libDirectory, fileName));
+		if (text !== undefined) {
+			pending.push(
+				...ts.preProcessFile(text).libReferenceDirectives.map(reference => `lib.${reference.fileName}.d.ts`),
+			);
+		}
+	}
+	return false;
+}
+
+// Stable key of resolved compiler options, for comparing compiles and keying artifacts
+export function getCompilerOptionsKey(compilerOptions: ts.CompilerOptions): string {
+	return JSON.stringify(
+		Object.keys(compilerOptions)
+			.sort()
+			.map(name => [name, compilerOptions[name]]),
+	);
+}
@@ -0,0 +1,218 @@
+import vm from 'vm';
+import path from 'path';
+import ts from 'typescript';
+
+export const EXECUTION_HARNESS_FILENAME = '__execution_harness';
+export const USER_CODE_FILENAME = '__user_file';
+export const DEFAULT_EXPORT_NAME = 'default';
+
+// Source of the harness that imports the additional source files and calls the chosen export of the user code
+export function createExecutionHarnessSource(
+	additionalSourceFiles: readonly ts.SourceFile[],
+	outputType: string,
+	argsTypes: string[],
+	exportName: string = DEFAULT_EXPORT_NAME,
+): string {
+	if (exportName !== DEFAULT_EXPORT_NAME && !/^[\p{ID_Start}$_][\p{ID_Continue}$\u200C\u200D]*$/u.test(exportName)) {
+		throw new Error(`Export name must be an identifier, but was: ${exportName}`);
+	}
+	const importClause = exportName === DEFAULT_EXPORT_NAME ? 'defaultExport' : `{ ${exportName} as defaultExport }`;
+	return `
+			${additionalSourceFiles
+				.map(file => {
+					if (file.fileName.endsWith('.d.ts')) return '';
+					const filenameSansExt = removeExt(file.fileName);
+					return `import '${filenameSansExt}';`;
+				})
+				.join('\n  ')}
+      import ${importClause} from '${USER_CODE_FILENAME}';
+            
+      declare global {
+        const __args: [${argsTypes.join(', ')}];
+        let __result: ${outputType} | Promise<${outputType}>;
+      }
+      __result = defaultExport(...__args);
+      
+      if ((__result as any) instanceof Promise) {
+      	__result = await __result;
+      }
+    `;
+}
+
+// Type node of the output type in the harness source, the type argument of the Promise in the declaration of __result
+export function getHarnessOutputTypeNode(harnessSourceFile: ts.SourceFile): ts.TypeNode {
+	const resultType = getHarnessGlobalTypeNode(harnessSourceFile, '__result');
+	const promiseType = ts.isUnionTypeNode(resultType) ? resultType.types[resultType.types.length - 1] : undefined;
+	if (promiseType === undefined || !ts.isTypeReferenceNode(promiseType) || promiseType.typeArguments?.length !== 1) {
+		throw new Error('Execution harness does not declare __result as the output type or a Promise of it');
+	}
+	return promiseType.typeArguments[0];
+}
+
+// Type node of the tuple of the args types in the harness source, from the declaration of __args
+export function getHarnessArgsTypeNode(harnessSourceFile: ts.SourceFile): ts.TypeNode {
+	return getHarnessGlobalTypeNode(harnessSourceFile, '__args');
+}
+
+function getHarnessGlobalTypeNode(harnessSourceFile: ts.SourceFile, name: string): ts.TypeNode {
+	for (const statement of harnessSourceFile.statements) {
+		if (!ts.isModuleDeclaration(statement) || statement.body === undefined || !ts.isModuleBlock(statement.body)) {
+			continue;
+		}
+		for (const declaration of statement.body.statements.flatMap(globalStatement =>
+			ts.isVariableStatement(globalStatement) ? globalStatement.declarationList.declarations : [],
+		)) {
+			if (ts.isIdentifier(declaration.name) && declaration.name.text === name && declaration.type !== undefined) {
+				return declaration.type;
+			}
+		}
+	}
+	throw new Error(`Execution harness does not declare the type of ${name}`);
+}
+
+// Create the modules of a compiled user code program in the given context and link them to the execution harness
+export async function linkExecutionHarness(
+	jsFileMap: { [key: string]: string },
+	context: vm.Context,
+): Promise<vm.Module> {
+	const moduleCache = createModules(jsFileMap, context);
+	const harnessModule = moduleCache.get(EXECUTION_HARNESS_FILENAME)!;
+	await linkModule(harnessModule, moduleCache);
+	return harnessModule;
+}
+
+/**
+ * Create the modules of a compiled user code program in the given context and link them to an entry module that
+ * imports what the execution harness imports, in the same order, without calling the user code.
+ *
+ * Evaluating the entry module runs the top level code of the library and the user code once, after which the exports of
+ * the user module can be called any number of times.
+ */
+export async function linkUserCodeModules(
+	jsFileMap: { [key: string]: string },
+	context: vm.Context,
+): Promise<{ entryModule: vm.Module; userModule: vm.Module }> {
+	const moduleCache = createModules(jsFileMap, context);
+	const harnessModule = moduleCache.get(EXECUTION_HARNESS_FILENAME)! as vm.SourceTextModule;
+	const entryModule = new vm.SourceTextModule(
+		harnessModule.dependencySpecifiers.map(specifier => `import '${specifier}';`).join('\n'),
+		{ identifier: EXECUTION_HARNESS_FILENAME, context },
+	);
+	await linkModule(entryModule, moduleCache);
+	return { entryModule, userModule: moduleCache.get(USER_CODE_FILENAME)! };
+}
+
+function createModules(jsFileMap: { [key: string]: string }, context: vm.Context): Map<string, vm.Module> {
+	const moduleCache = new Map<string, vm.Module>();
+	for (const [fileName, content] of Object.entries(jsFileMap)) {
+		moduleCache.set(
+			fileName,
+			new vm.SourceTextModule(content, {
+				identifier: fileName,
+				context,
+			}),
+		);
+	}
+	return moduleCache;
+}
+
+async function linkModule(module: vm.Module, moduleCache: Map<string, vm.Module>): Promise<void> {
+	await module.link((specifier, referencingModule) => {
+		// Relative imports between user files in directories resolve against the importing module
+		const filenameSansExt = specifier.startsWith('.')
+			? removeExt(path.posix.join(path.posix.dirname(referencingModule.identifier), specifier))
+			: removeExt(specifier);
+		if (moduleCache.has(filenameSansExt)) {
+			return moduleCache.get(filenameSansExt)!;
+		}
+		throw new Error(`Unable to resolve dependency: ${specifier}`);
+	});
+}
+
+export type HarnessEvaluation =
+	| { type: 'settled'; value: unknown }
+	| { type: 'timeout'; elapsed: number; error?: Error }
+	| { type: 'cancelled' };
+
+/**
+ * Evaluate a linked execution harness and wait until its result settles, bounding the total time by the timeout.
+ *
+ * The vm timeout interrupts the synchronous part of the evaluation, the remaining time bounds the wait for awaited
+ * promises. Loops that run after an await block the event loop and are out of reach on the thread running them, use a
+ * WorkerExecutionPool to interrupt those. An abort of the signal stops the wait the same way. Errors thrown by the user
+ * code are rethrown.
+ */
+export async function evaluateExecutionHarness(
+	harnessModule: vm.Module,
+	timeout: number,
+	signal?: AbortSignal,
+): Promise<HarnessEvaluation> {
+	return evaluateWithinTimeout(vmTimeout => harnessModule.evaluate({ timeout: vmTimeout }), timeout, signal);
+}
+
+/**
+ * Start an evaluation with the vm timeout it may use for its synchronous part, and wait until the promise it returns
+ * settles, bounding the total time by the timeout the same way as `evaluateExecutionHarness`.
+ */
+export async function evaluateWithinTimeout(
+	evaluate: (vmTimeout: number) => Promise<unknown>,
+	timeout: number,
+	signal?: AbortSignal,
+): Promise<HarnessEvaluation> {
+	const start = performance.now();
+	let timer: NodeJS.Timeout | undefined;
+	let onAbort: (() => void) | undefined;
+	try {
+		const evaluation = evaluate(timeout).then(value => ({ type: 'settled' as const, value }));
+		const timedOut = new Promise<'timeout'>(resolve => {
+			timer = setTimeout(() => resolve('timeout'), Math.max(0, timeout - (performance.now() - start)));
+		});
+		const cancelled = new Promise<'cancelled'>(resolve => {
+			onAbort = () => resolve('cancelled');
+			if (signal?.aborted) {
+				onAbort();
+			}
+			signal?.addEventListener('abort', onAbort, { once: true });
+		});
+		const outcome = await Promise.race([evaluation, timedOut, cancelled]);
+		if (outcome === 'timeout') {
+			return { type: 'timeout', elapsed: performance.now() - start };
+		}
+		if (outcome === 'cancelled') {
+			return { type: 'cancelled' };
+		}
+		return outcome;
+	} catch (error: any) {
+		if (error?.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+			return { type: 'timeout', elapsed: performance.now() - start, error };
+		}
+		throw error;
+	} finally {
+		clearTimeout(timer);
+		if (onAbort !== undefined) {
+			signal?.removeEventListener('abort', onAbort);
+		}
+	}
+}
+
+// Module name of a file, its path without extension so that files of the same name in different directories stay apart
+export function removeExt(pathname: string): string {
+	const normalizedPath = path.posix.normalize(pathname.replace(/\\/g, '/'));
+	return normalizedPath.slice(0, normalizedPath.length - path.posix.extname(normalizedPath).length);
+}
+
+// Whether a directory holds any of the modules, the directories of user files only exist in memory
+export function isModuleDirectory(moduleNames: Iterable<string>, directoryName: string): boolean {
+	const directoryPrefix = path.posix.normalize(directoryName.replace(/\\/g, '/')).replace(/\/?$/, '/');
+	for (const moduleName of moduleNames) {
+		if (moduleName.startsWith(directoryPrefix)) {
+			return true;
+		}
+	}
+	return false;
+}
+
+// Module name of a user file of a project, relative to the directory of the entry point, which runs as the user file
+export function getProjectModuleName(entryPoint: string, fileName: string): string {
+	return removeExt(path.posix.relative(path.posix.dirname(removeExt(entryPoint)), removeExt(fileName)));
+}
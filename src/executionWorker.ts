@@ -0,0 +1,79 @@
+import { parentPort } from 'worker_threads';
+import { linkExecutionHarness } from './executionHarness.js';
+import { createUserCodeContext } from './globalsPresets.js';
+import type { GlobalsPreset } from './globalsPresets.js';
+import { UserCodeConsole } from './UserCodeConsole.js';
+import type { CapturedConsoleEntry, UserCodeConsoleOptions } from './UserCodeConsole.js';
+
+export interface ExecutionRequest {
+	jsFileMap: { [key: string]: string };
+	args: any[];
+	timeout: number;
+	globals?: GlobalsPreset; // Preset of the globals the user code was compiled against
+	console?: UserCodeConsoleOptions; // Caps of the console of the host, when its output is captured
+}
+
+export type ExecutionResponse = (
+	| { type: 'ok'; value: any }
+	| { type: 'error'; error: Error; uncaught?: boolean } // An uncaught error leaves the worker unfit for reuse
+	| { type: 'timeout'; elapsed: number }
+	| { type: 'unclonable'; reason: string; thrown: boolean }
+) & { // The value or the thrown error could not be copied to the host
+	// Console output captured in the worker, located by the host
+	console?: { entries: CapturedConsoleEntry[]; droppedEntries: number };
+};
+
+// Answers the request in flight, an uncaught error may answer it before the user code settles
+let respond: ((response: ExecutionResponse) => void) | undefined;
+
+// Errors thrown by callbacks and rejections nobody handles would end the worker, report them as the result instead
+const reportUncaught = (error: any) => {
+	respond?.({ type: 'error', error, uncaught: true });
+};
+process.on('uncaughtException', reportUncaught);
+process.on('unhandledRejection', reportUncaught);
+
+// Entry point of the worker threads of a WorkerExecutionPool, runs one request at a time in a fresh context
+parentPort?.on('message', async (request: ExecutionRequest) => {
+	const start = performance.now();
+	const context = createUserCodeContext(request.globals);
+	context.__args = request.args;
+	context.__result = undefined;
+	const userConsole = request.console !== undefined ? UserCodeConsole.new(request.console) : undefined;
+	userConsole?.install(context);
+	const currentRespond = (response: ExecutionResponse) => {
+		if (respond !== currentRespond) {
+			return;
+		}
+		respond = undefined;
+		const consoleOutput = userConsole?.take();
+		try {
+			parentPort!.postMessage({ ...response, console: consoleOutput });
+		} catch (error: any) {
+			// Values such as functions and symbols can not be cloned to the host thread
+			parentPort!.postMessage({
+				type: 'unclonable',
+				reason: String(error?.message ?? error),
+				thrown: response.type === 'error',
+				console: consoleOutput,
+			});
+		}
+	};
+	respond = currentRespond;
+
+	let response: ExecutionResponse;
+	try {
+		const harnessModule = await linkExecutionHarness(request.jsFileMap, context);
+		// The vm timeout interrupts synchronous loops without losing the worker, the pool terminates it otherwise
+		await harnessModule.evaluate({
+			timeout: request.timeout,
+		});
+		response = { type: 'ok', value: context.__result };
+	} catch (error: any) {
+		response =
+			error?.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT'
+				? { type: 'timeout', elapsed: performance.now() - start }
+				: { type: 'error', error };
+	}
+	currentRespond(response);
+});
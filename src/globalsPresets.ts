@@ -0,0 +1,462 @@
+import vm from 'vm';
+import fs from 'fs';
+import path from 'path';
+import { createRequire } from 'module';
+import ts from 'typescript';
+
+export type GlobalsPreset = 'minimal' | 'pure-computation' | 'temporal';
+
+const GLOBALS_PRESETS: readonly GlobalsPreset[] = ['minimal', 'pure-computation', 'temporal'];
+
+// Declarations of the globals a preset adds to the ECMAScript builtins, compiled alongside the user code
+export const GLOBALS_TYPINGS_FILENAME = '__globals.d.ts';
+
+// Globals of a fresh context that no lib of the compiler declares, they are removed by every preset
+const UNTYPED_GLOBALS = ['console', 'WebAssembly'];
+
+// Properties that user code commonly assigns on objects inheriting them, kept assignable on the frozen prototypes
+const OVERRIDABLE_PROPERTIES = ['constructor', 'name', 'message', 'toString', 'toLocaleString', 'valueOf', 'toJSON'];
+
+/**
+ * Freezes everything reachable from the globals of the context, and makes the global bindings read only.
+ *
+ * Frozen prototypes would make assigning an inherited property throw in strict mode, for example `this.name` in the
+ * constructor of an error class. The overridable properties of prototypes are turned into accessors that define the
+ * property on the object assigned to instead.
+ */
+const hardenScript = new vm.Script(`
+(untypedGlobals, overridableProperties) => {
+	'use strict';
+	const { defineProperty, freeze, getOwnPropertyDescriptor, getPrototypeOf } = Object;
+	const hasOwn = Object.prototype.hasOwnProperty;
+	const ownKeys = Reflect.ownKeys;
+
+	for (const name of untypedGlobals) {
+		delete globalThis[name];
+	}
+
+	// The global itself stays extensible, the host defines __args and __result on it
+	const reached = new Set([globalThis]);
+	const prototypes = new Set();
+	const pending = [];
+	const reach = value => {
+		if (((typeof value === 'object' && value !== null) || typeof value === 'function') && !reached.has(value)) {
+			reached.add(value);
+			pending.push(value);
+		}
+	};
+	for (const name of ownKeys(globalThis)) {
+		const descriptor = getOwnPropertyDescriptor(globalThis, name);
+		reach(descriptor.value);
+		// The global of a context loses the value of a property redefined without one
+		defineProperty(globalThis, name, { value: descriptor.value, writable: false, configurable: false });
+	}
+	// Intrinsics that are only reachable from values, such as the prototypes of generators and iterators
+	for (const value of [
+		function* () {},
+		async function () {},
+		async function* () {},
+		[][Symbol.iterator](),
+		new Map()[Symbol.iterator](),
+		new Set()[Symbol.iterator](),
+		''[Symbol.iterator](),
+		/./[Symbol.matchAll](''),
+	]) {
+		reach(value);
+	}
+	while (pending.length > 0) {
+		const object = pending.pop();
+		for (const key of ownKeys(object)) {
+			const descriptor = getOwnPropertyDescriptor(object, key);
+			if (key === 'prototype' && typeof object === 'function' && typeof descriptor.value === 'object') {
+				prototypes.add(descriptor.value);
+			}
+			reach(descriptor.value);
+			reach(descriptor.get);
+			reach(descriptor.set);
+		}
+		reach(getPrototypeOf(object));
+	}
+
+	for (const prototype of prototypes) {
+		for (const key of overridableProperties) {
+			const descriptor = getOwnPropertyDescriptor(prototype, key);
+			if (descriptor === undefined || !descriptor.writable || !descriptor.configurable) {
+				continue;
+			}
+			const value = descriptor.value;
+			const get = function () {
+				return value;
+			};
+			const set = function (newValue) {
+				if (this === prototype) {
+					throw new TypeError("Cannot assign to read only property '" + key + "' of a frozen builtin");
+				}
+				if (hasOwn.call(this, key)) {
+					this[key] = newValue;
+				} else {
+					defineProperty(this, key, { value: newValue, writable: true, enumerable: true, configurable: true });
+				}
+			};
+			defineProperty(prototype, key, { get, set, enumerable: descriptor.enumerable, configurable: false });
+			freeze(get);
+			freeze(set);
+		}
+	}
+	reached.delete(globalThis);
+	for (const object of reached) {
+		freeze(object);
+	}
+}
+`);
+
+// Implementations of the globals of the pure-computation preset, written against the builtins of the context
+const pureComputationScript = new vm.Script(`
+(() => {
+	'use strict';
+	const { defineProperty, keys } = Object;
+	const hasOwn = Object.prototype.hasOwnProperty;
+	const errorConstructors = { Error, EvalError, RangeError, ReferenceError, SyntaxError, TypeError, URIError };
+	const typedArrayConstructors = [
+		Int8Array, Uint8Array, Uint8ClampedArray, Int16Array, Uint16Array, Int32Array, Uint32Array,
+		Float32Array, Float64Array, BigInt64Array, BigUint64Array,
+	];
+	const defineValue = (object, key, value) =>
+		defineProperty(object, key, { value, writable: true, enumerable: true, configurable: true });
+	const dataCloneError = message => {
+		const error = new Error(message);
+		defineProperty(error, 'name', { value: 'DataCloneError', writable: true, configurable: true });
+		return error;
+	};
+
+	function structuredClone(value) {
+		const copies = new Map();
+		const clone = value => {
+			if (typeof value === 'function' || typeof value === 'symbol') {
+				throw dataCloneError((typeof value === 'function' ? 'Functions' : 'Symbols') + ' can not be cloned');
+			}
+			if (typeof value !== 'object' || value === null) {
+				return value;
+			}
+			if (copies.has(value)) {
+				return copies.get(value);
+			}
+			let copy;
+			if (Array.isArray(value)) {
+				copy = new Array(value.length);
+			} else if (value instanceof Date) {
+				copy = new Date(value.getTime());
+			} else if (value instanceof RegExp) {
+				copy = new RegExp(value.source, value.flags);
+			} else if (
+				value instanceof Boolean ||
+				value instanceof Number ||
+				value instanceof String ||
+				value instanceof BigInt
+			) {
+				copy = Object(value.valueOf());
+			} else if (value instanceof ArrayBuffer) {
+				copies.set(value, value.slice(0));
+				return copies.get(value);
+			} else if (ArrayBuffer.isView(value)) {
+				const buffer = clone(value.buffer);
+				const TypedArray = typedArrayConstructors.find(constructor => value instanceof constructor);
+				copies.set(
+					value,
+					TypedArray === undefined
+						? new DataView(buffer, value.byteOffset, value.byteLength)
+						: new TypedArray(buffer, value.byteOffset, value.length),
+				);
+				return copies.get(value);
+			} else if (value instanceof Map || value instanceof Set) {
+				copy = value instanceof Map ? new Map() : new Set();
+				copies.set(value, copy);
+				for (const entry of value) {
+					if (copy instanceof Map) {
+						copy.set(clone(entry[0]), clone(entry[1]));
+					} else {
+						copy.add(clone(entry));
+					}
+				}
+				return copy;
+			} else if (value instanceof Error) {
+				const name = value.name;
+				copy = new (hasOwn.call(errorConstructors, name) ? errorConstructors[name] : Error)();
+				copies.set(value, copy);
+				for (const key of ['message', 'stack', 'cause']) {
+					if (hasOwn.call(value, key)) {
+						defineProperty(copy, key, { value: clone(value[key]), writable: true, configurable: true });
+					}
+				}
+				return copy;
+			} else if (
+				value instanceof Promise ||
+				value instanceof WeakMap ||
+				value instanceof WeakSet ||
+				value instanceof WeakRef ||
+				value instanceof FinalizationRegistry ||
+				value instanceof SharedArrayBuffer
+			) {
+				throw dataCloneError(Object.prototype.toString.call(value) + ' can not be cloned');
+			} else {
+				copy = {};
+			}
+			copies.set(value, copy);
+			for (const key of keys(value)) {
+				defineValue(copy, key, clone(value[key]));
+			}
+			return copy;
+		};
+		return clone(value);
+	}
+
+	class TextEncoder {
+		get encoding() {
+			return 'utf-8';
+		}
+
+		encode(input = '') {
+			const string = String(input);
+			const bytes = new Uint8Array(string.length * 3);
+			return bytes.slice(0, this.encodeInto(string, bytes).written);
+		}
+
+		encodeInto(source, destination) {
+			const string = String(source);
+			let read = 0;
+			let written = 0;
+			while (read < string.length) {
+				let codePoint = string.codePointAt(read);
+				const units = codePoint > 0xffff ? 2 : 1;
+				// Lone surrogates are encoded as the replacement character
+				if (codePoint >= 0xd800 && codePoint <= 0xdfff) {
+					codePoint = 0xfffd;
+				}
+				const length = codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+				if (written + length > destination.length) {
+					break;
+				}
+				if (length === 1) {
+					destination[written] = codePoint;
+				} else {
+					destination[written] = [0, 0, 0xc0, 0xe0, 0xf0][length] | (codePoint >> (6 * (length - 1)));
+					for (let index = 1; index < length; index++) {
+						destination[written + index] = 0x80 | ((codePoint >> (6 * (length - 1 - index))) & 0x3f);
+					}
+				}
+				read += units;
+				written += length;
+			}
+			return { read, written };
+		}
+	}
+
+	const decoderOptions = new WeakMap();
+
+	class TextDecoder {
+		constructor(label = 'utf-8', options = {}) {
+			if (!['utf-8', 'utf8', 'unicode-1-1-utf-8'].includes(String(label).trim().toLowerCase())) {
+				throw new RangeError('The encoding label provided (' + label + ') is not supported, only utf-8 is');
+			}
+			decoderOptions.set(this, { fatal: Boolean(options.fatal), ignoreBOM: Boolean(options.ignoreBOM) });
+		}
+
+		get encoding() {
+			return 'utf-8';
+		}
+
+		get fatal() {
+			return decoderOptions.get(this).fatal;
+		}
+
+		get ignoreBOM() {
+			return decoderOptions.get(this).ignoreBOM;
+		}
+
+		decode(input) {
+			const { fatal, ignoreBOM } = decoderOptions.get(this);
+			const bytes =
+				input === undefined
+					? new Uint8Array(0)
+					: ArrayBuffer.isView(input)
+					? new Uint8Array(input.buffer, input.byteOffset, input.byteLength)
+					: new Uint8Array(input);
+			const codePoints = [];
+			let string = '';
+			let index = !ignoreBOM && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf ? 3 : 0;
+			while (index < bytes.length) {
+				const byte = bytes[index++];
+				let needed = 0;
+				let codePoint = byte;
+				let lower = 0x80;
+				let upper = 0xbf;
+				if (byte >= 0xc2 && byte <= 0xdf) {
+					needed = 1;
+					codePoint = byte & 0x1f;
+				} else if (byte >= 0xe0 && byte <= 0xef) {
+					needed = 2;
+					codePoint = byte & 0xf;
+					lower = byte === 0xe0 ? 0xa0 : 0x80;
+					upper = byte === 0xed ? 0x9f : 0xbf;
+				} else if (byte >= 0xf0 && byte <= 0xf4) {
+					needed = 3;
+					codePoint = byte & 0x7;
+					lower = byte === 0xf0 ? 0x90 : 0x80;
+					upper = byte === 0xf4 ? 0x8f : 0xbf;
+				} else if (byte >= 0x80) {
+					codePoint = -1;
+				}
+				// A malformed sequence is replaced up to the byte that does not continue it
+				for (; needed > 0; needed--) {
+					const next = bytes[index];
+					if (next === undefined || next < lower || next > upper) {
+						codePoint = -1;
+						break;
+					}
+					codePoint = (codePoint << 6) | (next & 0x3f);
+					lower = 0x80;
+					upper = 0xbf;
+					index++;
+				}
+				if (codePoint === -1) {
+					if (fatal) {
+						throw new TypeError('The encoded data was not valid utf-8');
+					}
+					codePoint = 0xfffd;
+				}
+				codePoints.push(codePoint);
+				if (codePoints.length >= 4096) {
+					string += String.fromCodePoint(...codePoints.splice(0));
+				}
+			}
+			return string + String.fromCodePoint(...codePoints);
+		}
+	}
+
+	for (const [name, value] of [
+		['structuredClone', structuredClone],
+		['TextEncoder', TextEncoder],
+		['TextDecoder', TextDecoder],
+	]) {
+		defineProperty(globalThis, name, { value, writable: true, enumerable: false, configurable: true });
+	}
+})();
+`);
+
+const PURE_COMPUTATION_TYPINGS = `
+declare function structuredClone<T = any>(value: T): T;
+
+interface TextEncoderEncodeIntoResult {
+	read: number;
+	written: number;
+}
+
+interface TextEncoder {
+	readonly encoding: 'utf-8';
+	encode(input?: string): Uint8Array;
+	encodeInto(source: string, destination: Uint8Array): TextEncoderEncodeIntoResult;
+}
+
+declare var TextEncoder: {
+	prototype: TextEncoder;
+	new (): TextEncoder;
+};
+
+interface TextDecoderOptions {
+	fatal?: boolean;
+	ignoreBOM?: boolean;
+}
+
+interface TextDecoder {
+	readonly encoding: 'utf-8';
+	readonly fatal: boolean;
+	readonly ignoreBOM: boolean;
+	decode(input?: ArrayBuffer | ArrayBufferView): string;
+}
+
+declare var TextDecoder: {
+	prototype: TextDecoder;
+	new (label?: 'utf-8' | 'utf8' | 'unicode-1-1-utf-8', options?: TextDecoderOptions): TextDecoder;
+};
+`;
+
+let temporalPolyfill: { script: vm.Script; typings: string } | undefined;
+
+// The Temporal polyfill runs inside the context, so that none of its objects belong to the realm of the host
+function loadTemporalPolyfill(): { script: vm.Script; typings: string } {
+	if (temporalPolyfill !== undefined) {
+		return temporalPolyfill;
+	}
+	let entryPoint: string;
+	try {
+		entryPoint = createRequire(import.meta.url).resolve('@js-temporal/polyfill');
+	} catch {
+		throw new Error('The "temporal" globals preset needs the @js-temporal/polyfill package to be installed');
+	}
+	const packageDirectory = path.dirname(path.dirname(entryPoint));
+	const declarations = fs.readFileSync(path.join(packageDirectory, 'index.d.ts'), 'utf8');
+	// Only the Temporal namespace is declared, the polyfilled Intl and toTemporalInstant are not installed
+	const temporalEnd = declarations.search(/^declare namespace Intl\b/m);
+	temporalPolyfill = {
+		script: new vm.Script(
+			`${fs.readFileSync(path.join(packageDirectory, 'dist', 'index.umd.js'), 'utf8')}
+			Object.defineProperty(globalThis, 'Temporal', { value: temporal.Temporal, writable: true, configurable: true });
+			delete globalThis.temporal;`,
+			{ filename: 'temporal-polyfill.js' },
+		),
+		typings: declarations.slice(0, temporalEnd).replace(/^export namespace Temporal\b/m, 'declare namespace Temporal'),
+	};
+	return temporalPolyfill;
+}
+
+// ESNext declares builtins such as Object.groupBy that Node 20 does not have, TypeScript 4 has no ES2023 lib yet
+export function getGlobalsPresetLib(): string[] {
+	const libDirectory = path.dirname(ts.getDefaultLibFilePath({}));
+	return [ts.sys.fileExists(path.join(libDirectory, 'lib.es2023.d.ts')) ? 'lib.es2023.d.ts' : 'lib.es2022.d.ts'];
+}
+
+const globalsTypings = new Map<GlobalsPreset, ts.SourceFile | undefined>();
+
+/**
+ * Declarations of the globals of a preset beyond the lib of the compiler, undefined when it has none.
+ *
+ * Throws for unknown presets, and for the temporal preset when its polyfill is not installed.
+ */
+export function getGlobalsTypings(globals: GlobalsPreset): ts.SourceFile | undefined {
+	if (!GLOBALS_PRESETS.includes(globals)) {
+		throw new Error(`Globals preset must be one of ${GLOBALS_PRESETS.join(', ')}, but was: ${globals}`);
+	}
+	if (!globalsTypings.has(globals)) {
+		const typings =
+			globals === 'minimal'
+				? undefined
+				: globals === 'pure-computation'
+				? PURE_COMPUTATION_TYPINGS
+				: PURE_COMPUTATION_TYPINGS + loadTemporalPolyfill().typings;
+		globalsTypings.set(
+			globals,
+			typings !== undefined
+				? ts.createSourceFile(GLOBALS_TYPINGS_FILENAME, typings, ts.ScriptTarget.ESNext, true)
+				: undefined,
+		);
+	}
+	return globalsTypings.get(globals);
+}
+
+// A fresh context for user code, with the frozen globals of the preset when there is one
+export function createUserCodeContext(globals?: GlobalsPreset): vm.Context {
+	if (globals === undefined) {
+		return vm.createContext();
+	}
+	getGlobalsTypings(globals);
+	// Code can not be generated from strings, eval and the Function constructor throw
+	const context = vm.createContext({}, { codeGeneration: { strings: false, wasm: false } });
+	if (globals !== 'minimal') {
+		pureComputationScript.runInContext(context);
+	}
+	if (globals === 'temporal') {
+		loadTemporalPolyfill().script.runInContext(context);
+	}
+	hardenScript.runInContext(context)(UNTYPED_GLOBALS, OVERRIDABLE_PROPERTIES);
+	return context;
+}
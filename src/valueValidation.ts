@@ -0,0 +1,442 @@
+import ts from 'typescript';
+import { types } from 'util';
+import { Result } from './utils/monads.js';
+import { UserCodeArgumentError, UserCodeError, UserCodeOutputError } from './UserCodeRunner.js';
+
+// A node of a value schema, references point into the definitions of the schema
+export type ValueSchemaNode =
+	| { kind: 'any' }
+	| { kind: 'never' }
+	| { kind: 'primitive'; type: 'string' | 'number' | 'bigint' | 'boolean' | 'symbol' | 'undefined' | 'null' }
+	| { kind: 'literal'; value: string | number | boolean }
+	| { kind: 'array'; element: ValueSchemaNode }
+	| { kind: 'tuple'; elements: ValueSchemaNode[]; minLength: number; rest?: ValueSchemaNode }
+	| {
+			kind: 'object';
+			properties: { [name: string]: { schema: ValueSchemaNode; optional?: true } };
+			index?: ValueSchemaNode;
+			callable?: true;
+	  }
+	| { kind: 'function' }
+	| { kind: 'union'; members: ValueSchemaNode[] }
+	| { kind: 'intersection'; members: ValueSchemaNode[] }
+	| { kind: 'reference'; index: number };
+
+/**
+ * Runtime shape of a type of the execution harness, built from the type checker so that it can be stored with the
+ * artifacts.
+ *
+ * Object types that occur more than once, recursive ones included, are stored once in the definitions.
+ */
+export interface ValueSchema {
+	root: ValueSchemaNode;
+	definitions: ValueSchemaNode[];
+}
+
+// Where and how a value differs from its schema
+export interface ValueMismatch {
+	path: string;
+	expected: string;
+	actual: string;
+}
+
+// Build the schema of the awaited output type, the execution harness awaits the result of the user code
+export function createOutputSchema(outputType: ts.Type, typeChecker: ts.TypeChecker): ValueSchema {
+	let awaitedType = outputType;
+	while (
+		awaitedType.symbol?.name === 'Promise' &&
+		typeChecker.getTypeArguments(awaitedType as ts.TypeReference).length === 1
+	) {
+		awaitedType = typeChecker.getTypeArguments(awaitedType as ts.TypeReference)[0];
+	}
+	return createValueSchema(awaitedType, typeChecker);
+}
+
+export function createValueSchema(type: ts.Type, typeChecker: ts.TypeChecker): ValueSchema {
+	const definitions: ValueSchemaNode[] = [];
+	// Object types seen so far, with their index in the definitions once they are seen a second time
+	const objectTypes = new Map<ts.Type, { node?: ValueSchemaNode; index?: number }>();
+
+	const createNode = (type: ts.Type): ValueSchemaNode => {
+		const flags = type.flags;
+		if (flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) {
+			return { kind: 'any' };
+		}
+		if (flags & ts.TypeFlags.Never) {
+			return { kind: 'never' };
+		}
+		if (flags & (ts.TypeFlags.Undefined | ts.TypeFlags.Void)) {
+			return { kind: 'primitive', type: 'undefined' };
+		}
+		if (flags & ts.TypeFlags.Null) {
+			return { kind: 'primitive', type: 'null' };
+		}
+		if (flags & ts.TypeFlags.Boolean) {
+			return { kind: 'primitive', type: 'boolean' };
+		}
+		if (type.isStringLiteral() || type.isNumberLiteral()) {
+			return { kind: 'literal', value: type.value };
+		}
+		if (flags & ts.TypeFlags.BooleanLiteral) {
+			return { kind: 'literal', value: typeChecker.typeToString(type) === 'true' };
+		}
+		if (flags & (ts.TypeFlags.String | ts.TypeFlags.TemplateLiteral | ts.TypeFlags.StringMapping)) {
+			return { kind: 'primitive', type: 'string' };
+		}
+		if (flags & ts.TypeFlags.Number) {
+			return { kind: 'primitive', type: 'number' };
+		}
+		if (flags & ts.TypeFlags.BigIntLike) {
+			return { kind: 'primitive', type: 'bigint' };
+		}
+		if (flags & ts.TypeFlags.ESSymbolLike) {
+			return { kind: 'primitive', type: 'symbol' };
+		}
+		if (type.isUnion()) {
+			// `boolean` is a union of its literals inside of other unions
+			const booleanLiterals = type.types.filter(member => member.flags & ts.TypeFlags.BooleanLiteral);
+			const members = type.types
+				.filter(member => booleanLiterals.length < 2 || !booleanLiterals.includes(member))
+				.map(createNode);
+			return {
+				kind: 'union',
+				members: booleanLiterals.length < 2 ? members : [...members, { kind: 'primitive', type: 'boolean' }],
+			};
+		}
+		if (type.isIntersection()) {
+			// Brands of primitives only exist for the type checker, a branded string is a string at runtime
+			const primitiveMembers = type.types.filter(member => !(member.flags & ts.TypeFlags.Object));
+			if (primitiveMembers.length === 0) {
+				return createObjectNode(type);
+			}
+			return primitiveMembers.length === 1
+				? createNode(primitiveMembers[0])
+				: { kind: 'intersection', members: primitiveMembers.map(createNode) };
+		}
+		if (flags & ts.TypeFlags.NonPrimitive) {
+			return { kind: 'object', properties: {} };
+		}
+		if (flags & ts.TypeFlags.Object) {
+			const seen = objectTypes.get(type);
+			if (seen !== undefined) {
+				if (seen.index === undefined) {
+					seen.index = definitions.push(seen.node ?? { kind: 'any' }) - 1;
+				}
+				return { kind: 'reference', index: seen.index };
+			}
+			const objectType: { node?: ValueSchemaNode; index?: number } = {};
+			objectTypes.set(type, objectType);
+			objectType.node = createObjectNode(type);
+			if (objectType.index !== undefined) {
+				// Recursive types reference themselves before their node is complete
+				definitions[objectType.index] = objectType.node;
+				return { kind: 'reference', index: objectType.index };
+			}
+			return objectType.node;
+		}
+		// Unresolved generics and other types without a runtime shape are not checked
+		return { kind: 'any' };
+	};
+
+	const createObjectNode = (type: ts.Type): ValueSchemaNode => {
+		if (typeChecker.isArrayType(type)) {
+			return { kind: 'array', element: createNode(typeChecker.getTypeArguments(type as ts.TypeReference)[0]) };
+		}
+		if (typeChecker.isTupleType(type)) {
+			const tupleType = (type as ts.TypeReference).target as ts.TupleType;
+			const elementTypes = typeChecker.getTypeArguments(type as ts.TypeReference);
+			const restIndex = tupleType.elementFlags.findIndex(flags => flags & ts.ElementFlags.Variable);
+			return {
+				kind: 'tuple',
+				elements: (restIndex === -1 ? elementTypes : elementTypes.slice(0, restIndex)).map(createNode),
+				minLength: tupleType.minLength,
+				...(restIndex !== -1
+					? {
+							rest:
+								tupleType.elementFlags[restIndex] & ts.ElementFlags.Rest
+									? createNode(elementTypes[restIndex])
+									: { kind: 'any' },
+					  }
+					: {}),
+			};
+		}
+
+		const properties = typeChecker
+			.getPropertiesOfType(type)
+			// Symbol keyed and private properties can not be looked up by their name
+			.filter(property => !property.name.startsWith('__@') && !property.name.startsWith('#'));
+		const callable = type.getCallSignatures().length > 0;
+		if (callable && properties.length === 0) {
+			return { kind: 'function' };
+		}
+		// Only string index signatures are checked, every other own key of the value falls under them
+		const indexInfo = typeChecker.getIndexInfosOfType(type).find(info => info.keyType.flags & ts.TypeFlags.String);
+		return {
+			kind: 'object',
+			properties: Object.fromEntries(
+				properties.map(property => [
+					property.name,
+					{
+						schema: createNode(typeChecker.getTypeOfSymbol(property)),
+						...(property.flags & ts.SymbolFlags.Optional ? { optional: true as const } : {}),
+					},
+				]),
+			),
+			...(indexInfo !== undefined ? { index: createNode(indexInfo.type) } : {}),
+			...(callable ? { callable: true as const } : {}),
+		};
+	};
+
+	const root = createNode(type);
+	return { root, definitions };
+}
+
+/**
+ * Check the value against the schema, the first mismatch found is returned.
+ *
+ * Checking never runs code of the value: properties are read from their descriptors, and getters and proxies are
+ * mismatches. A value that refers back to itself is assumed to match where it is checked against the same schema node
+ * again, and a value too deep to check is a mismatch at its root.
+ */
+export function findValueMismatch(value: unknown, schema: ValueSchema): ValueMismatch | undefined {
+	const describe = (node: ValueSchemaNode, depth: number = 0): string => {
+		switch (node.kind) {
+			case 'any':
+			case 'never':
+			case 'function':
+				return node.kind;
+			case 'primitive':
+				return node.type;
+			case 'literal':
+				return JSON.stringify(node.value);
+			case 'array':
+				return `${
+					node.element.kind === 'union' ? `(${describe(node.element, depth)})` : describe(node.element, depth)
+				}[]`;
+			case 'tuple':
+				return `[${node.elements.map(element => describe(element, depth)).join(', ')}${
+					node.rest !== undefined ? `${node.elements.length > 0 ? ', ' : ''}...${describe(node.rest, depth)}[]` : ''
+				}]`;
+			case 'object':
+				return 'object';
+			case 'union':
+				return [...new Set(node.members.map(member => describe(member, depth)))].join(' | ');
+			case 'intersection':
+				return node.members.map(member => describe(member, depth)).join(' & ');
+			case 'reference':
+				return depth < 3 ? describe(schema.definitions[node.index], depth + 1) : 'object';
+		}
+	};
+
+	// Objects being checked with the schema nodes they are checked against, seeing a pair again is a cycle
+	const ancestors = new Map<object, Set<ValueSchemaNode>>();
+
+	const check = (value: unknown, node: ValueSchemaNode, path: string): ValueMismatch | undefined => {
+		if ((typeof value !== 'object' || value === null) && typeof value !== 'function') {
+			return checkNode(value, node, path);
+		}
+		let nodes = ancestors.get(value);
+		if (nodes?.has(node)) {
+			return undefined;
+		}
+		if (nodes === undefined) {
+			nodes = new Set();
+			ancestors.set(value, nodes);
+		}
+		nodes.add(node);
+		try {
+			return checkNode(value, node, path);
+		} finally {
+			nodes.delete(node);
+			if (nodes.size === 0) {
+				ancestors.delete(value);
+			}
+		}
+	};
+
+	const checkNode = (value: unknown, node: ValueSchemaNode, path: string): ValueMismatch | undefined => {
+		const mismatch = (actual: string = describeValue(value)): ValueMismatch => ({
+			path,
+			expected: describe(node),
+			actual,
+		});
+		// Reading the elements or properties of a proxy would run its traps
+		if ((node.kind === 'array' || node.kind === 'tuple' || node.kind === 'object') && types.isProxy(value)) {
+			return mismatch('proxy');
+		}
+		switch (node.kind) {
+			case 'any':
+				return undefined;
+			case 'never':
+				return mismatch();
+			case 'primitive':
+				return (node.type === 'null' ? value === null : typeof value === node.type) ? undefined : mismatch();
+			case 'literal':
+				return value === node.value ? undefined : mismatch();
+			case 'function':
+				return typeof value === 'function' ? undefined : mismatch();
+			case 'array':
+				if (!Array.isArray(value)) {
+					return mismatch();
+				}
+				for (let index = 0; index < value.length; index++) {
+					const elementMismatch = checkProperty(value, String(index), node.element, `${path}[${index}]`);
+					if (elementMismatch !== undefined) {
+						return elementMismatch;
+					}
+				}
+				return undefined;
+			case 'tuple':
+				if (
+					!Array.isArray(value) ||
+					value.length < node.minLength ||
+					(node.rest === undefined && value.length > node.elements.length)
+				) {
+					return mismatch();
+				}
+				for (let index = 0; index < value.length; index++) {
+					const elementNode = index < node.elements.length ? node.elements[index] : node.rest!;
+					const elementPath = `${path}[${index}]`;
+					const element = readProperty(value, String(index));
+					// Missing optional elements are undefined
+					if (
+						index >= node.minLength &&
+						index < node.elements.length &&
+						'value' in element &&
+						element.value === undefined
+					) {
+						continue;
+					}
+					const elementMismatch = checkProperty(value, String(index), elementNode, elementPath);
+					if (elementMismatch !== undefined) {
+						return elementMismatch;
+					}
+				}
+				return undefined;
+			case 'object': {
+				if (!((typeof value === 'object' && value !== null) || (typeof value === 'function' && node.callable))) {
+					return mismatch();
+				}
+				const object = value as object;
+				for (const [name, property] of Object.entries(node.properties)) {
+					const read = readProperty(object, name);
+					if (property.optional && 'value' in read && read.value === undefined) {
+						continue;
+					}
+					const propertyMismatch = checkProperty(object, name, property.schema, appendPropertyName(path, name));
+					if (propertyMismatch !== undefined) {
+						return propertyMismatch;
+					}
+				}
+				if (node.index !== undefined) {
+					for (const name of Object.keys(object)) {
+						if (Object.prototype.hasOwnProperty.call(node.properties, name)) {
+							continue;
+						}
+						const indexMismatch = checkProperty(object, name, node.index, appendPropertyName(path, name));
+						if (indexMismatch !== undefined) {
+							return indexMismatch;
+						}
+					}
+				}
+				return undefined;
+			}
+			case 'union':
+				return node.members.some(member => check(value, member, path) === undefined) ? undefined : mismatch();
+			case 'intersection':
+				for (const member of node.members) {
+					const memberMismatch = check(value, member, path);
+					if (memberMismatch !== undefined) {
+						return memberMismatch;
+					}
+				}
+				return undefined;
+			case 'reference':
+				return check(value, schema.definitions[node.index], path);
+		}
+	};
+
+	// Check a property that is read without running code of the object
+	const checkProperty = (
+		object: object,
+		key: string,
+		node: ValueSchemaNode,
+		path: string,
+	): ValueMismatch | undefined => {
+		const read = readProperty(object, key);
+		if ('trusted' in read) {
+			return undefined;
+		}
+		if ('unreadable' in read) {
+			return node.kind === 'any' ? undefined : { path, expected: describe(node), actual: read.unreadable };
+		}
+		return check(read.value, node, path);
+	};
+
+	try {
+		return check(value, schema.root, '$');
+	} catch {
+		// Values nested deeper than the stack allows
+		return { path: '$', expected: describe(schema.root), actual: 'value nested too deeply to check' };
+	}
+}
+
+// The returned value when it matches the output schema of the artifacts, artifacts without one are not checked
+export function validateOutput<ReturnType>(
+	value: unknown,
+	outputSchema: ValueSchema | undefined,
+): Result<ReturnType, UserCodeError[]> {
+	const mismatch = outputSchema !== undefined ? findValueMismatch(value, outputSchema) : undefined;
+	return mismatch !== undefined ? Result.Err([UserCodeOutputError.new(mismatch)]) : Result.Ok(value as ReturnType);
+}
+
+// The arguments when they match the args schema of the artifacts, artifacts without one are not checked
+export function validateArgs<ArgsType extends any[]>(
+	args: ArgsType,
+	argsSchema: ValueSchema | undefined,
+): Result<ArgsType, UserCodeError[]> {
+	const mismatch = argsSchema !== undefined ? findValueMismatch(args, argsSchema) : undefined;
+	return mismatch !== undefined ? Result.Err([UserCodeArgumentError.new(mismatch)]) : Result.Ok(args);
+}
+
+// Read a data property of the object or its prototypes, own getters and proxies would run code of the value. Accessors
+// of a prototype, such as Map.prototype.size, belong to the class of the value and are trusted without being read
+function readProperty(object: object, key: string): { value: unknown } | { unreadable: string } | { trusted: true } {
+	for (let current: object | null = object; current !== null; current = Object.getPrototypeOf(current)) {
+		if (types.isProxy(current)) {
+			return { unreadable: 'proxy' };
+		}
+		const descriptor = Object.getOwnPropertyDescriptor(current, key);
+		if (descriptor !== undefined) {
+			if ('value' in descriptor) {
+				return { value: descriptor.value };
+			}
+			return current === object ? { unreadable: 'getter' } : { trusted: true };
+		}
+	}
+	return { value: undefined };
+}
+
+function appendPropertyName(path: string, name: string): string {
+	return /^[A-Za-z_$][\w$]*$/.test(name) ? `${path}.${name}` : `${path}[${JSON.stringify(name)}]`;
+}
+
+function describeValue(value: unknown): string {
+	if (value === null) {
+		return 'null';
+	}
+	if (Array.isArray(value)) {
+		return 'array';
+	}
+	switch (typeof value) {
+		case 'string':
+			return JSON.stringify(value.length > 50 ? value.slice(0, 47) + '...' : value);
+		case 'number':
+		case 'boolean':
+			return String(value);
+		case 'bigint':
+			return `${value}n`;
+		default:
+			return typeof value;
+	}
+}
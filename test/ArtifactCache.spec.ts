@@ -0,0 +1,156 @@
+import { describe, it } from 'node:test';
+import { expect } from 'expect';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import ts from 'typescript';
+import {
+  createArtifactCacheKey,
+  DirectoryArtifactCache,
+  InMemoryArtifactCache,
+  UserCodeRunner,
+} from '../src/UserCodeRunner';
+import { installStringUtils } from '../src/utils/stringUtils';
+installStringUtils();
+
+const userCode = `
+export default function MyDSLFunction(thing: string): string {
+  return thing + ' world';
+}
+`.trimTemplate();
+
+describe('createArtifactCacheKey', () => {
+  it('should change with the user code, signature, additional source files, compiler options and overrides', () => {
+    const file = ts.createSourceFile('lib.ts', 'export const a = 1;', ts.ScriptTarget.ESNext);
+    const key = createArtifactCacheKey(userCode, 'string', ['string'], [file]);
+
+    expect(createArtifactCacheKey(userCode, 'string', ['string'], [file])).toBe(key);
+    expect(createArtifactCacheKey(userCode, 'string', ['string'], UserCodeRunner.createLibrary([file]))).toBe(key);
+    expect(createArtifactCacheKey(userCode + ' ', 'string', ['string'], [file])).not.toBe(key);
+    expect(createArtifactCacheKey(userCode, 'number', ['string'], [file])).not.toBe(key);
+    expect(createArtifactCacheKey(userCode, 'string', ['number'], [file])).not.toBe(key);
+    expect(
+      createArtifactCacheKey(userCode, 'string', ['string'], [
+        ts.createSourceFile('lib.ts', 'export const a = 2;', ts.ScriptTarget.ESNext),
+      ]),
+    ).not.toBe(key);
+    expect(createArtifactCacheKey(userCode, 'string', ['string'], [file], {})).toBe(key);
+    expect(createArtifactCacheKey(userCode, 'string', ['string'], [file], { strict: true })).not.toBe(key);
+    expect(
+      createArtifactCacheKey(userCode, 'string', ['string'], [file], {}, undefined, false, false, undefined, {}),
+    ).toBe(key);
+    expect(
+      createArtifactCacheKey(userCode, 'string', ['string'], [file], {}, undefined, false, false, undefined, {
+        2322: ts.DiagnosticCategory.Warning,
+      }),
+    ).not.toBe(key);
+  });
+});
+
+describe('InMemoryArtifactCache', () => {
+  it('should evict the least recently used entry', async () => {
+    const cache = new InMemoryArtifactCache(2);
+    await cache.set('a', { jsFileMap: {}, userCodeSourceMap: 'a' });
+    await cache.set('b', { jsFileMap: {}, userCodeSourceMap: 'b' });
+    await cache.get('a');
+    await cache.set('c', { jsFileMap: {}, userCodeSourceMap: 'c' });
+
+    expect(cache.size).toBe(2);
+    expect(await cache.get('a')).toBeDefined();
+    expect(await cache.get('b')).toBeUndefined();
+    expect(await cache.get('c')).toBeDefined();
+  });
+});
+
+describe('DirectoryArtifactCache', () => {
+  it('should persist entries across instances', async () => {
+    const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'artifact-cache-'));
+    try {
+      const cacheItem = { jsFileMap: { __user_file: 'export default 1;' }, userCodeSourceMap: '{}' };
+      await new DirectoryArtifactCache(directory).set('key', cacheItem);
+
+      expect(await new DirectoryArtifactCache(directory).get('key')).toEqual(cacheItem);
+      expect(await new DirectoryArtifactCache(directory).get('missing')).toBeUndefined();
+    } finally {
+      await fs.promises.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('UserCodeRunner artifact cache', () => {
+  it('should store compiled user code and skip preprocessing on a hit', async () => {
+    const artifactCache = new InMemoryArtifactCache();
+    const runner = new UserCodeRunner({ artifactCache });
+
+    const result = await runner.executeUserCode(userCode, ['hello'], 'string', ['string']);
+    expect(result.unwrap()).toBe('hello world');
+    expect(artifactCache.size).toBe(1);
+
+    // Swap the cached artifacts for a different program to observe that the cache entry is used
+    const otherArtifacts = await runner.preProcess(
+      `
+      export default function MyDSLFunction(thing: string): string {
+        return thing + ' cached';
+      }
+      `.trimTemplate(),
+      'string',
+      ['string'],
+    );
+    await artifactCache.set(createArtifactCacheKey(userCode, 'string', ['string'], []), otherArtifacts.unwrap());
+
+    const cachedResult = await runner.executeUserCode(userCode, ['hello'], 'string', ['string']);
+    expect(cachedResult.unwrap()).toBe('hello cached');
+  });
+
+  it('should cache artifacts without the warnings of their compile', async () => {
+    const artifactCache = new InMemoryArtifactCache();
+    const runner = new UserCodeRunner({ artifactCache, suggestions: true });
+    const deprecatedUserCode = `
+    /** @deprecated Use newHelper instead */
+    function oldHelper(thing: string): string {
+      return thing;
+    }
+    export default function MyDSLFunction(thing: string): string {
+      return oldHelper(thing) + ' world';
+    }
+    `.trimTemplate();
+
+    const result = await runner.executeUserCode(deprecatedUserCode, ['hello'], 'string', ['string']);
+    expect(result.unwrap()).toBe('hello world');
+
+    const cacheItem = await artifactCache.get(createArtifactCacheKey(deprecatedUserCode, 'string', ['string'], []));
+    expect(cacheItem).toBeDefined();
+    expect(cacheItem!.warnings).toBeUndefined();
+  });
+
+  it('should not share artifacts between runners with other diagnostic category overrides', async () => {
+    const artifactCache = new InMemoryArtifactCache();
+    const lenientRunner = new UserCodeRunner({
+      artifactCache,
+      diagnosticCategoryOverrides: { 2322: ts.DiagnosticCategory.Warning },
+    });
+    const strictRunner = new UserCodeRunner({ artifactCache });
+    const mistypedUserCode = `
+    export default function MyDSLFunction(thing: string): string {
+      const count: number = thing;
+      return thing + count;
+    }
+    `.trimTemplate();
+
+    const lenientResult = await lenientRunner.executeUserCode(mistypedUserCode, ['hello'], 'string', ['string']);
+    const strictResult = await strictRunner.executeUserCode(mistypedUserCode, ['hello'], 'string', ['string']);
+
+    expect(lenientResult.unwrap()).toBe('hellohello');
+    expect(strictResult.unwrapErr()[0].message).toBe("TypeError: TS2322 Type 'string' is not assignable to type 'number'.");
+  });
+
+  it('should not cache failed compiles', async () => {
+    const artifactCache = new InMemoryArtifactCache();
+    const runner = new UserCodeRunner({ artifactCache });
+
+    const result = await runner.executeUserCode(userCode, ['hello'], 'number', ['string']);
+
+    expect(result.isErr()).toBeTruthy();
+    expect(artifactCache.size).toBe(0);
+  });
+});
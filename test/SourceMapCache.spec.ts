@@ -0,0 +1,120 @@
+import { describe, it } from 'node:test';
+import { expect } from 'expect';
+import {
+  CacheItem,
+  SourceMapCache,
+  UserCodeRunner,
+  ArtifactSourceMaps,
+  WorkerExecutionPool,
+} from '../src/UserCodeRunner';
+import { installStringUtils } from '../src/utils/stringUtils';
+installStringUtils();
+
+const userCode = `
+export default function MyDSLFunction(thing: string): string {
+  throw new Error('This is a test error: ' + thing);
+}
+`.trimTemplate();
+
+async function compile(code: string): Promise<CacheItem> {
+  return (await new UserCodeRunner().preProcess(code, { outputType: 'string', argsTypes: ['string'] })).unwrap();
+}
+
+// Record which of the parsed source maps have been destroyed
+function trackDestroyed(sourceMaps: ArtifactSourceMaps): { destroyed: boolean } {
+  const tracker = { destroyed: false };
+  for (const { sourceMap } of sourceMaps.values()) {
+    const destroy = sourceMap.destroy.bind(sourceMap);
+    sourceMap.destroy = () => {
+      tracker.destroyed = true;
+      destroy();
+    };
+  }
+  return tracker;
+}
+
+describe('SourceMapCache', () => {
+  it('should parse the source maps of an artifact once', async () => {
+    const cache = new SourceMapCache();
+    const cacheItem = await compile(userCode);
+
+    const first = await cache.use(cacheItem, sourceMaps => sourceMaps);
+    const second = await cache.use({ ...cacheItem }, sourceMaps => sourceMaps);
+
+    expect(second).toBe(first);
+    expect(cache.size).toBe(1);
+    cache.clear();
+  });
+
+  it('should destroy the source maps of the least recently used artifact', async () => {
+    const cache = new SourceMapCache(1);
+    const tracker = await cache.use(await compile(userCode), trackDestroyed);
+
+    await cache.use(await compile(userCode.replace('test error', 'other error')), () => undefined);
+    await new Promise(setImmediate);
+
+    expect(tracker.destroyed).toBeTruthy();
+    expect(cache.size).toBe(1);
+    cache.clear();
+  });
+
+  it('should destroy released source maps once they are no longer in use', async () => {
+    const cache = new SourceMapCache();
+    const cacheItem = await compile(userCode);
+    let tracker: { destroyed: boolean } | undefined;
+
+    const pending = cache.use(cacheItem, sourceMaps => {
+      tracker = trackDestroyed(sourceMaps);
+      return tracker.destroyed;
+    });
+    cache.release(cacheItem);
+
+    expect(await pending).toBe(false);
+    await new Promise(setImmediate);
+    expect(tracker!.destroyed).toBeTruthy();
+    expect(cache.size).toBe(0);
+  });
+
+  it('should not keep source maps that fail to parse', async () => {
+    const cache = new SourceMapCache();
+    const cacheItem = await compile(userCode);
+    const broken = { ...cacheItem, metadata: undefined, userCodeSourceMap: 'not a source map' };
+
+    await expect(cache.use(broken, () => undefined)).rejects.toThrow();
+
+    expect(cache.size).toBe(0);
+  });
+
+  it('should release the source maps kept by the execution pool of the runner', async () => {
+    const pool = new WorkerExecutionPool({ size: 1 });
+    const runner = new UserCodeRunner({ executionPool: pool });
+    const cacheItem = await compile(userCode);
+
+    const releasedItems: (CacheItem | undefined)[] = [];
+    const releaseSourceMaps = pool.releaseSourceMaps.bind(pool);
+    pool.releaseSourceMaps = released => {
+      releasedItems.push(released);
+      releaseSourceMaps(released);
+    };
+
+    const result = await runner.executeUserCodeFromArtifacts(cacheItem, ['hello']);
+    expect(result.unwrapErr()[0].stack).toBe('at MyDSLFunction(2:8)');
+
+    runner.releaseSourceMaps(cacheItem);
+    runner.releaseSourceMaps();
+    expect(releasedItems).toEqual([cacheItem, undefined]);
+    await pool.destroy();
+  });
+
+  it('should keep runtime errors usable after the runner released its source maps', async () => {
+    const runner = new UserCodeRunner();
+    const cacheItem = await compile(userCode);
+
+    const result = await runner.executeUserCodeFromArtifacts(cacheItem, ['hello']);
+    runner.releaseSourceMaps();
+
+    const error = result.unwrapErr()[0];
+    expect(error.stack).toBe('at MyDSLFunction(2:8)');
+    expect(error.location).toEqual({ line: 2, column: 8 });
+  });
+});
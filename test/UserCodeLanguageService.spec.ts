@@ -0,0 +1,183 @@
+import { after, describe, it } from 'node:test';
+import { expect } from 'expect';
+import ts from 'typescript';
+import { UserCodeRunner } from '../src/UserCodeRunner';
+import { installStringUtils } from '../src/utils/stringUtils';
+installStringUtils();
+
+describe('UserCodeLanguageService', () => {
+  const languageService = new UserCodeRunner().createLanguageService({
+    outputType: 'string',
+    argsTypes: ['string'],
+    additionalSourceFiles: [
+      ts.createSourceFile(
+        'helpers.ts',
+        `
+        /** Greet someone by name */
+        export function greet(name: string, punctuation: string): string {
+          return 'hello ' + name + punctuation;
+        }
+        export function wave(): string {
+          return 'o/';
+        }
+        `.trimTemplate(),
+        ts.ScriptTarget.ESNext,
+        true,
+      ),
+    ],
+  });
+
+  after(() => languageService.dispose());
+
+  it('should complete exports of the additional source files', () => {
+    const userCode = `
+    import * as helpers from 'helpers';
+    export default function MyDSLFunction(thing: string): string {
+      return helpers.
+    }
+    `.trimTemplate();
+
+    const completions = languageService.getCompletions(userCode, userCode.indexOf('helpers.\n') + 'helpers.'.length);
+
+    expect(completions?.entries.map(entry => entry.name).sort()).toEqual(['greet', 'wave']);
+  });
+
+  it('should complete members from the default library', () => {
+    const userCode = `
+    export default function MyDSLFunction(thing: string): string {
+      return thing.
+    }
+    `.trimTemplate();
+
+    const completions = languageService.getCompletions(userCode, userCode.indexOf('thing.\n') + 'thing.'.length);
+
+    expect(completions?.entries.map(entry => entry.name)).toContain('toUpperCase');
+  });
+
+  it('should describe the type and documentation under the cursor', () => {
+    const userCode = `
+    import { greet } from 'helpers';
+    export default function MyDSLFunction(thing: string): string {
+      return greet(thing, '!');
+    }
+    `.trimTemplate();
+
+    const quickInfo = languageService.getQuickInfo(userCode, userCode.indexOf('greet(thing'));
+
+    expect(ts.displayPartsToString(quickInfo?.displayParts)).toBe(
+      '(alias) greet(name: string, punctuation: string): string\nimport greet',
+    );
+    expect(ts.displayPartsToString(quickInfo?.documentation)).toBe('Greet someone by name');
+  });
+
+  it('should help with the signature of a call', () => {
+    const userCode = `
+    import { greet } from 'helpers';
+    export default function MyDSLFunction(thing: string): string {
+      return greet(thing, );
+    }
+    `.trimTemplate();
+
+    const signatureHelp = languageService.getSignatureHelp(userCode, userCode.indexOf('thing, ') + 'thing, '.length);
+
+    expect(signatureHelp?.argumentIndex).toBe(1);
+    expect(signatureHelp?.items[0].parameters.map(parameter => parameter.name)).toEqual(['name', 'punctuation']);
+  });
+});
+
+describe('createUserCodeStub', () => {
+  it('should name and document the parameters after the library declarations', async () => {
+    const runner = new UserCodeRunner();
+    const globals = ts.createSourceFile(
+      'globals.d.ts',
+      `
+      declare global {
+        /** An activity instance of the plan */
+        interface ActivityInstance {
+          id: number;
+        }
+        /** Commands to run for the activity */
+        type Expansion = string[];
+      }
+      export {};
+      `.trimTemplate(),
+      ts.ScriptTarget.ESNext,
+      true,
+    );
+
+    const stub = await runner.createUserCodeStub({
+      outputType: 'Expansion',
+      argsTypes: ['ActivityInstance', 'ActivityInstance', 'number'],
+      additionalSourceFiles: [globals],
+    });
+
+    expect(stub.unwrap()).toBe(`
+    /**
+     * @param activityInstance An activity instance of the plan
+     * @param activityInstance2 An activity instance of the plan
+     * @returns Commands to run for the activity
+     */
+    export default function (activityInstance: ActivityInstance, activityInstance2: ActivityInstance, arg2: number): Expansion {
+      throw new Error('Not implemented');
+    }
+    `.trimTemplate() + '\n');
+  });
+
+  it('should not name parameters after reserved words', async () => {
+    const runner = new UserCodeRunner();
+    const globals = ts.createSourceFile(
+      'globals.d.ts',
+      `
+      declare global {
+        namespace Kinds {
+          /** A callback of the plan */
+          type Function = (x: number) => number;
+          type Class = string;
+        }
+      }
+      export {};
+      `.trimTemplate(),
+      ts.ScriptTarget.ESNext,
+      true,
+    );
+
+    const stub = await runner.createUserCodeStub({
+      outputType: 'number',
+      argsTypes: ['Kinds.Function', 'Kinds.Class'],
+      additionalSourceFiles: [globals],
+    });
+
+    expect(stub.unwrap()).toBe(`
+    /**
+     * @param arg0 A callback of the plan
+     */
+    export default function (arg0: Kinds.Function, arg1: Kinds.Class): number {
+      throw new Error('Not implemented');
+    }
+    `.trimTemplate() + '\n');
+  });
+
+  it('should produce a stub that compiles under the compiler options of the runner', async () => {
+    const runner = new UserCodeRunner({ compilerOptions: { strict: true, noUnusedParameters: true } });
+
+    const stub = await runner.createUserCodeStub({ outputType: 'string', argsTypes: ['string'] });
+
+    expect(stub.unwrap()).toBe(`
+    export default function (_arg0: string): string {
+      throw new Error('Not implemented');
+    }
+    `.trimTemplate() + '\n');
+  });
+
+  it('should export the stub under the chosen export name', async () => {
+    const runner = new UserCodeRunner();
+
+    const stub = await runner.createUserCodeStub({ outputType: 'boolean', argsTypes: ['string'], exportName: 'validate' });
+
+    expect(stub.unwrap()).toBe(`
+    export function validate(arg0: string): boolean {
+      throw new Error('Not implemented');
+    }
+    `.trimTemplate() + '\n');
+  });
+});
@@ -2,7 +2,19 @@
 import './inputs/polyfills';
 import { describe, it, test } from 'node:test';
 import { expect } from 'expect';
-import {UserCodeRunner} from "../src/UserCodeRunner";
+import {
+  CACHE_ITEM_FORMAT_VERSION,
+  UserCodeArgumentError,
+  UserCodeArtifactError,
+  UserCodeCancellationError,
+  UserCodeConsole,
+  UserCodeFix,
+  UserCodeOutputError,
+  UserCodeProjectError,
+  UserCodeRunner,
+  UserCodeTimeoutError,
+  UserCodeTransferError,
+} from "../src/UserCodeRunner";
 import {installStringUtils} from "../src/utils/stringUtils";
 installStringUtils();
 
@@ -752,7 +764,7 @@ describe('behavior', () => {
           at additionalFile:1:7
       `.trimTemplate());
       expect(err.stack).toMatch(/at SourceTextModule.evaluate \(node:internal\/vm\/module:\d+:\d+\)/);
-      expect(err.stack).toMatch(/at UserCodeRunner\.executeUserCodeFromArtifacts \(\S+src\/UserCodeRunner\.ts:\d+:\d+/);
+      expect(err.stack).toMatch(/at UserCodeRunner\.executeCheckedArtifacts \(\S+src\/UserCodeRunner\.ts:\d+:\d+/);
     }
   });
 
@@ -783,6 +795,1704 @@ describe('behavior', () => {
     expect(result2.unwrap()).toBe('hello world');
   });
 
+  describe('libraries', () => {
+    it('should reuse a compiled library across preprocessing calls', async () => {
+      const library = UserCodeRunner.createLibrary([
+        ts.createSourceFile('globals.d.ts', `
+        declare global {
+          function someGlobalFunction(thing: string): string;
+        }
+        export {};
+        `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+        ts.createSourceFile('other-importable.ts', `
+        export function importedFunction(thing: string): string {
+          return thing + ' other';
+        }
+        `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+      ]);
+
+      const runner = new UserCodeRunner();
+
+      const first = await runner.preProcess(`
+      import { importedFunction } from 'other-importable';
+      export default function myDSLFunction(thing: string): string {
+        return someGlobalFunction(thing) + importedFunction(' world');
+      }
+      `.trimTemplate(), 'string', ['string'], library);
+      const second = await runner.preProcess(`
+      import { importedFunction } from 'other-importable';
+      export default function myDSLFunction(thing: string): string {
+        return importedFunction(thing);
+      }
+      `.trimTemplate(), 'string', ['string'], library);
+
+      expect(first.isOk()).toBeTruthy();
+      expect(second.isOk()).toBeTruthy();
+      expect(second.unwrap().jsFileMap['other-importable']).toBe(first.unwrap().jsFileMap['other-importable']);
+
+      const result = await runner.executeUserCodeFromArtifacts(
+        second.unwrap().jsFileMap,
+        second.unwrap().userCodeSourceMap,
+        ['hello'],
+      );
+
+      expect(result.unwrap()).toBe('hello other');
+    });
+
+    it('should recheck user code against a compiled library', async () => {
+      const library = UserCodeRunner.createLibrary([
+        ts.createSourceFile('other-importable.ts', `
+        export function importedFunction(thing: string): string {
+          return thing + ' other';
+        }
+        `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+      ]);
+
+      const runner = new UserCodeRunner();
+
+      await runner.preProcess(`
+      export default function myDSLFunction(thing: string): string {
+        return thing;
+      }
+      `.trimTemplate(), 'string', ['string'], library);
+      const result = await runner.executeUserCode(
+        `
+        import { importedFunction } from 'other-importable';
+        export default function myDSLFunction(thing: string): string {
+          return importedFunction(5);
+        }
+        `.trimTemplate(),
+        ['hello'],
+        'string',
+        ['string'],
+        1000,
+        library,
+      );
+
+      expect(result.isErr()).toBeTruthy();
+      expect(result.unwrapErr().length).toBe(1);
+      expect(result.unwrapErr()[0].message).toBe(`
+      TypeError: TS2345 Argument of type 'number' is not assignable to parameter of type 'string'.
+      `.trimTemplate());
+      expect(result.unwrapErr()[0].location).toMatchObject({
+        line: 3,
+        column: 27,
+      });
+    });
+    describe('library stack frames', () => {
+      const library = UserCodeRunner.createLibrary([
+        ts.createSourceFile('checks.ts', `
+        export function check(thing: string): string {
+          return require(thing);
+        }
+        function require(thing: string): string {
+          if (thing === '') {
+            throw new Error('Empty thing');
+          }
+          return thing;
+        }
+        `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+      ]);
+      const userCode = `
+      import { check } from 'checks';
+      export default function MyDSLFunction(thing: string): string {
+        return check(thing);
+      }
+      `.trimTemplate();
+
+      async function executeWith(libraryStackFrames?: 'hidden' | 'collapsed' | 'shown') {
+        const runner = new UserCodeRunner({ libraryStackFrames });
+        const cacheItem = (await runner.preProcess(userCode, {
+          outputType: 'string',
+          argsTypes: ['string'],
+          additionalSourceFiles: library,
+        })).unwrap();
+        expect(Object.keys(cacheItem.librarySourceMaps ?? {})).toEqual(['checks.ts']);
+        return (await runner.executeUserCodeFromArtifacts(cacheItem, [''])).unwrapErr()[0];
+      }
+
+      it('should hide library frames by default', async () => {
+        const error = await executeWith();
+
+        expect(error.message).toBe('Error: Empty thing');
+        expect(error.stack).toBe('at MyDSLFunction(3:9)');
+        expect(error.location).toEqual({ line: 3, column: 9 });
+      });
+
+      it('should map library frames to the library files', async () => {
+        const error = await executeWith('shown');
+
+        expect(error.stack).toBe(`
+        at require(checks.ts:6:10)
+        at check(checks.ts:2:9)
+        at MyDSLFunction(3:9)
+        `.trimTemplate());
+        expect(error.location).toEqual({ line: 3, column: 9 });
+      });
+
+      it('should collapse runs of library frames', async () => {
+        const error = await executeWith('collapsed');
+
+        expect(error.stack).toBe(`
+        at require(checks.ts:6:10) [+1 library frame]
+        at MyDSLFunction(3:9)
+        `.trimTemplate());
+      });
+    });
+  });
+
+  describe('serialized artifacts', () => {
+    const userCode = `
+    export default function MyDSLFunction(thing: string): string {
+      return thing + ' world';
+    }
+    `.trimTemplate();
+
+    it('should execute deserialized artifacts', async () => {
+      const runner = new UserCodeRunner();
+
+      const cacheItem = (await runner.preProcess(userCode, 'string', ['string'])).unwrap();
+      const deserialized = UserCodeRunner.deserializeCacheItem(UserCodeRunner.serializeCacheItem(cacheItem), {
+        outputType: 'string',
+        argsTypes: ['string'],
+      });
+
+      expect(deserialized.isOk()).toBeTruthy();
+      expect(deserialized.unwrap().metadata).toMatchObject({
+        formatVersion: CACHE_ITEM_FORMAT_VERSION,
+        typescriptVersion: ts.version,
+        signature: { outputType: 'string', argsTypes: ['string'] },
+      });
+
+      const result = await runner.executeUserCodeFromArtifacts(deserialized.unwrap(), ['hello']);
+      expect(result.unwrap()).toBe('hello world');
+    });
+
+    it('should reject tampered artifacts', async () => {
+      const runner = new UserCodeRunner();
+
+      const cacheItem = (await runner.preProcess(userCode, 'string', ['string'])).unwrap();
+      const tampered = {
+        ...cacheItem,
+        jsFileMap: { ...cacheItem.jsFileMap, __user_file: 'export default () => "tampered";' },
+      };
+
+      const deserialized = UserCodeRunner.deserializeCacheItem(JSON.stringify(tampered));
+      expect(deserialized.isErr()).toBeTruthy();
+      expect(deserialized.unwrapErr()[0].message).toBe(
+        'ArtifactError: Artifact content hash does not match its contents. Recompile the user code with preProcess.',
+      );
+
+      const result = await runner.executeUserCodeFromArtifacts(tampered, ['hello']);
+      expect(result.isErr()).toBeTruthy();
+      expect(result.unwrapErr()[0]).toBeInstanceOf(UserCodeArtifactError);
+    });
+
+    it('should reject cache items that had their metadata removed', async () => {
+      const runner = new UserCodeRunner();
+
+      const { metadata, ...stripped } = (await runner.preProcess(userCode, 'string', ['string'])).unwrap();
+      const tampered = {
+        ...stripped,
+        jsFileMap: { ...stripped.jsFileMap, __user_file: 'export default () => "tampered";' },
+      };
+
+      const result = await runner.executeUserCodeFromArtifacts(tampered, ['hello']);
+      expect(result.isErr()).toBeTruthy();
+      expect(result.unwrapErr()[0].message).toBe(
+        'ArtifactError: Artifact has no metadata. Recompile the user code with preProcess.',
+      );
+
+      const session = await runner.createSession(tampered);
+      expect(session.isErr()).toBeTruthy();
+      expect(session.unwrapErr()[0]).toBeInstanceOf(UserCodeArtifactError);
+
+      // The legacy positional form still runs artifacts without metadata
+      const legacy = await runner.executeUserCodeFromArtifacts(stripped.jsFileMap, stripped.userCodeSourceMap, ['hello']);
+      expect(legacy.unwrap()).toBe('hello world');
+    });
+
+    it('should reject artifacts with malformed metadata', async () => {
+      const runner = new UserCodeRunner();
+
+      const cacheItem = (await runner.preProcess(userCode, 'string', ['string'])).unwrap();
+      const { signature, ...unsigned } = cacheItem.metadata!;
+
+      const nullMetadata = UserCodeRunner.deserializeCacheItem('{"jsFileMap":{},"userCodeSourceMap":"","metadata":null}');
+      const noSignature = UserCodeRunner.deserializeCacheItem(JSON.stringify({ ...cacheItem, metadata: unsigned }));
+      const badArgsTypes = UserCodeRunner.deserializeCacheItem(
+        JSON.stringify({ ...cacheItem, metadata: { ...cacheItem.metadata, signature: { ...signature, argsTypes: [1] } } }),
+      );
+
+      expect(nullMetadata.unwrapErr()[0].message).toBe(
+        'ArtifactError: Artifact metadata is malformed, it must be an object. Recompile the user code with preProcess.',
+      );
+      expect(noSignature.unwrapErr()[0].message).toBe(
+        'ArtifactError: Artifact is malformed, metadata.signature must be an object. Recompile the user code with preProcess.',
+      );
+      expect(badArgsTypes.unwrapErr()[0].message).toBe(
+        'ArtifactError: Artifact is malformed, metadata.signature.argsTypes must be an array of strings. Recompile the user code with preProcess.',
+      );
+
+      const result = await runner.executeUserCodeFromArtifacts({ ...cacheItem, metadata: unsigned as any }, ['hello']);
+      expect(result.unwrapErr()[0]).toBeInstanceOf(UserCodeArtifactError);
+    });
+
+    it('should reject stale artifacts', async () => {
+      const runner = new UserCodeRunner();
+
+      const cacheItem = (await runner.preProcess(userCode, 'string', ['string'])).unwrap();
+      const serialized = UserCodeRunner.serializeCacheItem({
+        ...cacheItem,
+        metadata: { ...cacheItem.metadata!, typescriptVersion: '4.0.0' },
+      });
+
+      const deserialized = UserCodeRunner.deserializeCacheItem(serialized);
+      expect(deserialized.isErr()).toBeTruthy();
+      expect(deserialized.unwrapErr()[0].message).toBe(
+        `ArtifactError: Artifact was compiled with TypeScript 4.0.0, but the runner uses ${ts.version}. Recompile the user code with preProcess.`,
+      );
+    });
+
+    it('should reject artifacts compiled against a different signature', async () => {
+      const runner = new UserCodeRunner();
+
+      const cacheItem = (await runner.preProcess(userCode, 'string', ['string'])).unwrap();
+
+      const deserialized = UserCodeRunner.deserializeCacheItem(UserCodeRunner.serializeCacheItem(cacheItem), {
+        outputType: 'number',
+        argsTypes: ['string'],
+      });
+      expect(deserialized.isErr()).toBeTruthy();
+      expect(deserialized.unwrapErr()[0].message).toBe(
+        'ArtifactError: Artifact was compiled for the signature "(...args: [string]) => string", expected "(...args: [string]) => number". Recompile the user code with preProcess.',
+      );
+    });
+  });
+
+  describe('timeouts', () => {
+    it('should time out user code that never settles', async () => {
+      const userCode = `
+      export default function MyDSLFunction(): Promise<string> {
+        return new Promise(() => {});
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+
+      const result = await runner.executeUserCode(userCode, [], 'string', [], 200);
+
+      expect(result.isErr()).toBeTruthy();
+      expect(result.unwrapErr()[0]).toBeInstanceOf(UserCodeTimeoutError);
+      // Timers run on the millisecond clock of the event loop and can fire a fraction early against performance.now()
+      expect((result.unwrapErr()[0] as UserCodeTimeoutError).elapsed).toBeGreaterThan(199);
+      expect(result.unwrapErr()[0].message).toMatch(/^TimeoutError: Execution of user code exceeded the timeout of 200ms after \d+ms$/);
+    });
+
+    it('should time out synchronous loops', async () => {
+      const userCode = `
+      export default function MyDSLFunction(): string {
+        while (true) {}
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+
+      const result = await runner.executeUserCode(userCode, [], 'string', [], 200);
+
+      expect(result.isErr()).toBeTruthy();
+      expect(result.unwrapErr()[0]).toBeInstanceOf(UserCodeTimeoutError);
+    });
+
+    it('should wait for promises from the context within the timeout', async () => {
+      const userCode = `
+      declare function hostDelay(value: string): Promise<string>;
+      export default async function MyDSLFunction(thing: string): Promise<string> {
+        return (await hostDelay(thing)) + ' world';
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+
+      const result = await runner.executeUserCode(userCode, ['hello'], 'string', ['string'], 1000, [], vm.createContext({
+        hostDelay: (value: string) => new Promise(resolve => setTimeout(() => resolve(value), 50)),
+      }));
+
+      expect(result.unwrap()).toBe('hello world');
+    });
+  });
+
+  describe('options', () => {
+    it('should compile with an options object', async () => {
+      const userCode = `
+      export default function MyDSLFunction(thing: string): string {
+        return thing + ' world';
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+
+      const result = await runner.preProcess(userCode, { outputType: 'string', argsTypes: ['string'] });
+
+      expect(result.isOk()).toBeTruthy();
+      expect(result.unwrap().metadata?.signature).toEqual({ outputType: 'string', argsTypes: ['string'] });
+    });
+
+    it('should execute with an options object', async () => {
+      const userCode = `
+      declare const greeting: string;
+      export default function MyDSLFunction(thing: string): string {
+        return greeting + ' ' + thing;
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+
+      const result = await runner.executeUserCode(userCode, {
+        args: ['world'],
+        outputType: 'string',
+        argsTypes: ['string'],
+        context: vm.createContext({ greeting: 'hello' }),
+      });
+
+      expect(result.unwrap()).toBe('hello world');
+    });
+  });
+
+  describe('compiler options', () => {
+    it('should type check user code with the configured compiler options', async () => {
+      const userCode = `
+      export default function MyDSLFunction(thing) {
+        return thing + ' world';
+      }
+      `.trimTemplate();
+
+      const lenientResult = await new UserCodeRunner().preProcess(userCode, { outputType: 'string', argsTypes: ['string'] });
+      expect(lenientResult.isOk()).toBeTruthy();
+
+      const runner = new UserCodeRunner({ compilerOptions: { strict: true } });
+      const strictResult = await runner.preProcess(userCode, { outputType: 'string', argsTypes: ['string'] });
+
+      expect(strictResult.isErr()).toBeTruthy();
+      expect(strictResult.unwrapErr()[0].message).toBe(
+        "TypeError: TS7006 Parameter 'thing' implicitly has an 'any' type.",
+      );
+    });
+
+    it('should recheck a library compiled with other compiler options', async () => {
+      const library = UserCodeRunner.createLibrary([
+        ts.createSourceFile('helpers.ts', 'export function helper(value) { return value; }', ts.ScriptTarget.ESNext, true),
+      ]);
+      const userCode = `
+      import { helper } from 'helpers';
+      export default function MyDSLFunction(): number {
+        return helper(1);
+      }
+      `.trimTemplate();
+
+      const lenientResult = await new UserCodeRunner().preProcess(userCode, { outputType: 'number', argsTypes: [], additionalSourceFiles: library });
+      expect(lenientResult.isOk()).toBeTruthy();
+
+      const runner = new UserCodeRunner({ compilerOptions: { noImplicitAny: true } });
+      const strictResult = await runner.preProcess(userCode, { outputType: 'number', argsTypes: [], additionalSourceFiles: library });
+      expect(strictResult.isErr()).toBeTruthy();
+    });
+
+    it('should refuse compiler options the execution harness depends on', () => {
+      expect(() => new UserCodeRunner({ compilerOptions: { module: ts.ModuleKind.CommonJS } })).toThrow(
+        'Compiler option "module" can not be overridden, it must be: 7',
+      );
+      expect(() => new UserCodeRunner({ compilerOptions: { noEmit: true } })).toThrow(
+        'Compiler option "noEmit" is not supported by the user code runner',
+      );
+      expect(() => new UserCodeRunner({ compilerOptions: { target: ts.ScriptTarget.ES2015 } })).toThrow(
+        'Compiler option "target" must be ES2017 or later, but was: ES2015',
+      );
+      expect(() => new UserCodeRunner({ compilerOptions: { target: ts.ScriptTarget.JSON } })).toThrow(
+        'Compiler option "target" must be ES2017 or later, but was: JSON',
+      );
+    });
+
+    it('should refuse compiler options TypeScript rejects and libs without Promise', () => {
+      expect(() => new UserCodeRunner({ compilerOptions: { exactOptionalPropertyTypes: true } })).toThrow(
+        "Compiler options are invalid: TS5052 Option 'exactOptionalPropertyTypes' cannot be specified without specifying option 'strictNullChecks'.",
+      );
+      expect(() => new UserCodeRunner({ compilerOptions: { lib: ['lib.es5.d.ts'] } })).toThrow(
+        'Compiler option "lib" must declare Promise, which the execution harness awaits, but was: ["lib.es5.d.ts"]',
+      );
+      expect(
+        () => new UserCodeRunner({ compilerOptions: { strict: true, exactOptionalPropertyTypes: true, lib: ['lib.es2017.d.ts'] } }),
+      ).not.toThrow();
+    });
+
+    it('should keep the defaults for compiler options set to undefined', async () => {
+      const runner = new UserCodeRunner({ compilerOptions: { module: undefined, target: undefined } });
+
+      const result = await runner.executeUserCode('export default async () => 1', [], 'number', []);
+      expect(result.unwrap()).toBe(1);
+    });
+  });
+
+  describe('structured errors', () => {
+    it('should describe type errors with their code, range and severity', async () => {
+      const userCode = `
+      export default function MyDSLFunction(thing: string): string {
+        const count: number = thing;
+        return thing + count;
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+
+      const result = await runner.preProcess(userCode, { outputType: 'string', argsTypes: ['string'] });
+
+      const error = result.unwrapErr()[0];
+      expect(error.category).toBe('type');
+      expect(error.code).toBe(2322);
+      expect(error.severity).toBe('error');
+      expect(error.range).toEqual({
+        start: { line: 2, column: 9, offset: userCode.indexOf('count') },
+        end: { line: 2, column: 14, offset: userCode.indexOf('count') + 'count'.length },
+      });
+      expect(error.toJSON()).toMatchObject({ code: 2322, category: 'type', severity: 'error', location: { line: 2, column: 9 } });
+      expect(error.toJSON()).not.toHaveProperty('fixes');
+    });
+
+    it('should categorize errors in the signature of the default export as harness errors', async () => {
+      const userCode = `
+      export default function MyDSLFunction(thing: string): number {
+        return 1;
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+
+      const result = await runner.preProcess(userCode, { outputType: 'string', argsTypes: ['string'] });
+
+      const error = result.unwrapErr()[0];
+      expect(error.category).toBe('harness');
+      expect(error.range.start).toMatchObject({ line: 1, column: 55 });
+      expect(error.range.end).toMatchObject({ line: 1, column: 61 });
+    });
+
+    it('should place runtime errors at their source mapped location', async () => {
+      const userCode = `
+      export default function MyDSLFunction(): string {
+        throw new Error('This is a test error');
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+
+      const result = await runner.executeUserCode(userCode, { args: [], outputType: 'string', argsTypes: [] });
+
+      const error = result.unwrapErr()[0];
+      expect(error.category).toBe('runtime');
+      expect(error.code).toBeUndefined();
+      expect(error.range).toEqual({ start: error.location, end: error.location });
+    });
+  });
+
+  describe('warnings', () => {
+    it('should return suggestions with a successful compile', async () => {
+      const userCode = `
+      /** @deprecated Use newHelper instead */
+      function oldHelper(thing: string): string {
+        return thing;
+      }
+      export default function MyDSLFunction(thing: string): string {
+        return oldHelper(thing) + ' world';
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner({ suggestions: true });
+
+      const result = await runner.preProcess(userCode, { outputType: 'string', argsTypes: ['string'] });
+      const withoutSuggestions = await new UserCodeRunner().preProcess(userCode, { outputType: 'string', argsTypes: ['string'] });
+
+      expect(result.isOk()).toBeTruthy();
+      const warnings = result.unwrap().warnings!;
+      expect(warnings.length).toBe(1);
+      expect(warnings[0].code).toBe(6387);
+      expect(warnings[0].severity).toBe('suggestion');
+      expect(warnings[0].location).toMatchObject({ line: 6, column: 10 });
+      expect(withoutSuggestions.unwrap().warnings).toEqual([]);
+    });
+
+    it('should report diagnostics in their overridden category', async () => {
+      const userCode = `
+      export default function MyDSLFunction(thing: string): string {
+        const unused = 1;
+        return thing + ' world';
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner({
+        compilerOptions: { noUnusedLocals: true },
+        diagnosticCategoryOverrides: { 6133: ts.DiagnosticCategory.Warning },
+      });
+
+      const result = await runner.preProcess(userCode, { outputType: 'string', argsTypes: ['string'] });
+
+      expect(result.isOk()).toBeTruthy();
+      const cacheItem = result.unwrap();
+      expect(cacheItem.warnings!.map(warning => warning.toJSON())).toMatchObject([
+        {
+          message: "TypeError: TS6133 'unused' is declared but its value is never read.",
+          severity: 'warning',
+          location: { line: 2, column: 9 },
+        },
+      ]);
+      expect(JSON.parse(UserCodeRunner.serializeCacheItem(cacheItem)).warnings).toBeUndefined();
+    });
+  });
+
+  describe('fixes', () => {
+    function applyFix(userCode: string, fix: UserCodeFix): string {
+      return [...fix.edits]
+        .sort((a, b) => b.range.start.offset! - a.range.start.offset!)
+        .reduce(
+          (code, edit) => code.slice(0, edit.range.start.offset) + edit.newText + code.slice(edit.range.end.offset),
+          userCode,
+        );
+    }
+
+    it('should offer a default export when there is none', async () => {
+      const userCode = `
+      export function MyDSLFunction(thing: string): string {
+        return thing + ' world';
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+
+      const result = await runner.preProcess(userCode, { outputType: 'string', argsTypes: ['string'] });
+
+      const fixes = result.unwrapErr()[0].fixes;
+      expect(fixes.map(fix => fix.description)).toEqual(['Add a default export function with the expected signature']);
+      const fixedResult = await runner.preProcess(applyFix(userCode, fixes[0]), { outputType: 'string', argsTypes: ['string'] });
+      expect(fixedResult.isOk()).toBeTruthy();
+    });
+
+    it('should offer the expected return type', async () => {
+      const userCode = `
+      export default async function MyDSLFunction(thing: string): Promise<number> {
+        return 1;
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+
+      const result = await runner.preProcess(userCode, { outputType: 'string', argsTypes: ['string'] });
+
+      const fixes = result.unwrapErr()[0].fixes;
+      expect(fixes[0].edits.map(edit => edit.newText)).toEqual(['Promise<string>']);
+      expect(applyFix(userCode, fixes[0])).toContain('MyDSLFunction(thing: string): Promise<string> {');
+    });
+
+    it('should offer the fixes of the language service for type errors', async () => {
+      const userCode = `
+      export default function MyDSLFunction(value: number): number {
+        return Math.flor(value);
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+
+      const result = await runner.preProcess(userCode, { outputType: 'number', argsTypes: ['number'] });
+
+      const error = result.unwrapErr()[0];
+      expect(error.code).toBe(2551);
+      const fix = error.fixes.find(fix => fix.description === "Change spelling to 'floor'")!;
+      expect(fix.edits).toEqual([
+        {
+          range: {
+            start: { line: 2, column: 15, offset: userCode.indexOf('flor') },
+            end: { line: 2, column: 19, offset: userCode.indexOf('flor') + 'flor'.length },
+          },
+          newText: 'floor',
+        },
+      ]);
+      const fixedResult = await runner.preProcess(applyFix(userCode, fix), { outputType: 'number', argsTypes: ['number'] });
+      expect(fixedResult.isOk()).toBeTruthy();
+    });
+  });
+
+  describe('projects', () => {
+    it('should compile and run an entry point that imports other user files', async () => {
+      const runner = new UserCodeRunner();
+
+      const result = await runner.executeUserCode(
+        {
+          files: {
+            'main.ts': `
+            import { shout } from './strings';
+            export default function MyDSLFunction(thing: string): string {
+              return shout(thing);
+            }
+            `.trimTemplate(),
+            'strings.ts': `
+            export function shout(thing: string): string {
+              return thing.toUpperCase() + '!';
+            }
+            `.trimTemplate(),
+          },
+          entryPoint: 'main.ts',
+        },
+        { args: ['hello'], outputType: 'string', argsTypes: ['string'] },
+      );
+
+      expect(result.unwrap()).toBe('HELLO!');
+    });
+
+    it('should report type errors in the user file they occur in', async () => {
+      const runner = new UserCodeRunner();
+
+      const result = await runner.preProcess(
+        {
+          files: {
+            'main.ts': `
+            import { count } from './counting';
+            export default function MyDSLFunction(thing: string): number {
+              return count(thing);
+            }
+            `.trimTemplate(),
+            'counting.ts': `
+            export function count(thing: string): number {
+              const length: string = thing.length;
+              return length;
+            }
+            `.trimTemplate(),
+          },
+          entryPoint: 'main.ts',
+        },
+        { outputType: 'number', argsTypes: ['string'] },
+      );
+
+      const errors = result.unwrapErr();
+      expect(errors.map(error => error.location)).toEqual([
+        { line: 2, column: 9, fileName: 'counting.ts' },
+        { line: 3, column: 3, fileName: 'counting.ts' },
+      ]);
+      expect(errors[0].stack).toBe('at count(counting.ts:2:9)');
+    });
+
+    it('should map runtime errors through the user file they are thrown in', async () => {
+      const runner = new UserCodeRunner();
+
+      const result = await runner.executeUserCode(
+        {
+          files: {
+            'main.ts': `
+            import { fail } from './failing';
+            export default function MyDSLFunction(): string {
+              return fail();
+            }
+            `.trimTemplate(),
+            'failing.ts': `
+            export function fail(): string {
+              throw new Error('This is a test error');
+            }
+            `.trimTemplate(),
+          },
+          entryPoint: 'main.ts',
+        },
+        { args: [], outputType: 'string', argsTypes: [] },
+      );
+
+      const error = result.unwrapErr()[0];
+      expect(error.location).toEqual({ line: 2, column: 8, fileName: 'failing.ts' });
+      expect(error.stack).toBe('at fail(failing.ts:2:8)\nat MyDSLFunction(main.ts:3:9)');
+    });
+
+    it('should keep user files of the same name in different directories apart', async () => {
+      const runner = new UserCodeRunner();
+
+      const result = await runner.executeUserCode(
+        {
+          files: {
+            'src/main.ts': `
+            import { name as first } from './a/util';
+            import { name } from './b/util';
+            export default function MyDSLFunction(): string {
+              return first + name;
+            }
+            `.trimTemplate(),
+            'src/a/util.ts': `export const name: string = 'a';`,
+            'src/b/util.ts': `
+            import { name as other } from '../a/util';
+            export const name: string = 'b' + other;
+            `.trimTemplate(),
+          },
+          entryPoint: 'src/main.ts',
+        },
+        { args: [], outputType: 'string', argsTypes: [] },
+      );
+
+      expect(result.unwrap()).toBe('aba');
+    });
+
+    it('should refuse a project without its entry point', async () => {
+      const runner = new UserCodeRunner();
+
+      const result = await runner.preProcess({ files: { 'helpers.ts': 'export const a = 1;' }, entryPoint: 'main.ts' });
+
+      expect(result.isErr()).toBeTruthy();
+      expect(result.unwrapErr()[0]).toBeInstanceOf(UserCodeProjectError);
+      expect(result.unwrapErr()[0].message).toBe('ProjectError: Entry point "main.ts" is not one of the user files');
+    });
+
+    it('should refuse user files that conflict with other files or lie outside the entry point directory', async () => {
+      const runner = new UserCodeRunner();
+      const library = [ts.createSourceFile('helpers.ts', 'export const a = 1;', ts.ScriptTarget.ESNext, true)];
+
+      const conflicting = await runner.preProcess(
+        { files: { 'main.ts': 'export default () => 1;', 'helpers.ts': 'export const b = 2;' }, entryPoint: 'main.ts' },
+        { additionalSourceFiles: library },
+      );
+      expect(conflicting.unwrapErr()[0].message).toBe(
+        'ProjectError: User file "helpers.ts" conflicts with another file of the same name',
+      );
+
+      const outside = await runner.preProcess({
+        files: { 'src/main.ts': 'export default () => 1;', 'shared.ts': 'export const b = 2;' },
+        entryPoint: 'src/main.ts',
+      });
+      expect(outside.unwrapErr()[0].message).toBe(
+        'ProjectError: User file "shared.ts" is outside the directory of the entry point',
+      );
+    });
+  });
+
+  describe('named exports', () => {
+    const userCode = `
+    export function expand(thing: string): string {
+      return thing + ' expanded';
+    }
+    export function validate(thing: string): boolean {
+      return thing.length > 0;
+    }
+    `.trimTemplate();
+
+    it('should call the chosen export', async () => {
+      const runner = new UserCodeRunner();
+
+      const expanded = await runner.executeUserCode(userCode, {
+        args: ['hello'],
+        outputType: 'string',
+        argsTypes: ['string'],
+        exportName: 'expand',
+      });
+      const validated = await runner.executeUserCode(userCode, {
+        args: [''],
+        outputType: 'boolean',
+        argsTypes: ['string'],
+        exportName: 'validate',
+      });
+
+      expect(expanded.unwrap()).toBe('hello expanded');
+      expect(validated.unwrap()).toBe(false);
+    });
+
+    it('should report a missing export by its name', async () => {
+      const runner = new UserCodeRunner();
+
+      const result = await runner.preProcess(userCode, { outputType: 'string', argsTypes: ['string'], exportName: 'check' });
+
+      const error = result.unwrapErr()[0];
+      expect(error.message).toBe(
+        'TypeError: TS2305 No export named "check". Expected an exported function "check" with the signature: "(...args: [string]) => string | Promise<string>".',
+      );
+      expect(error.fixes[0].description).toBe('Add an exported function "check" with the expected signature');
+      expect(error.fixes[0].edits[0].newText).toBe(
+        `\nexport function check(...args: [string]): string {\n  throw new Error('Not implemented');\n}\n`,
+      );
+    });
+
+    it('should report an export that is not a function by its name', async () => {
+      const runner = new UserCodeRunner();
+
+      const result = await runner.preProcess(`export const expand = 'not a function';`, {
+        outputType: 'string',
+        argsTypes: ['string'],
+        exportName: 'expand',
+      });
+
+      expect(result.unwrapErr()[0].message).toBe(
+        'TypeError: TS2349 Export "expand" is not a valid function. Expected an exported function "expand" with the signature: "(...args: [string]) => string | Promise<string>".',
+      );
+      expect(result.unwrapErr()[0].location).toEqual({ line: 1, column: 14 });
+    });
+
+    it('should point return type errors at the chosen export', async () => {
+      const runner = new UserCodeRunner();
+
+      const result = await runner.preProcess(userCode, { outputType: 'string', argsTypes: ['string'], exportName: 'validate' });
+
+      const error = result.unwrapErr()[0];
+      expect(error.message).toBe("TypeError: TS2322 Incorrect return type. Expected: 'string | Promise<string>', Actual: 'boolean'.");
+      expect(error.stack).toBe('at validate(4:42)');
+    });
+
+    it('should refuse artifacts compiled for another export', async () => {
+      const runner = new UserCodeRunner();
+
+      const result = await runner.preProcess(userCode, { outputType: 'string', argsTypes: ['string'], exportName: 'expand' });
+      const serialized = UserCodeRunner.serializeCacheItem(result.unwrap());
+
+      expect(
+        UserCodeRunner.deserializeCacheItem(serialized, { outputType: 'string', argsTypes: ['string'] }).unwrapErr()[0].message,
+      ).toBe('ArtifactError: Artifact was compiled for the export "expand", expected "default". Recompile the user code with preProcess.');
+    });
+  });
+
+  describe('output validation', () => {
+    const library = [
+      ts.createSourceFile('plan.d.ts', `
+      declare global {
+        type Duration = number & { __brand: 'Duration' };
+        interface Step {
+          name: string;
+          kind: 'command' | 'wait';
+          duration?: Duration;
+          children?: Step[];
+        }
+        interface Plan {
+          steps: Step[];
+          metadata: { [key: string]: string | number };
+        }
+      }
+      export {};
+      `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+    ];
+
+    it('should return values that match the output type', async () => {
+      const userCode = `
+      export default function MyDSLFunction(): Plan {
+        return {
+          steps: [
+            { name: 'a', kind: 'command', children: [{ name: 'b', kind: 'wait', duration: 5 as Duration }] },
+          ],
+          metadata: { author: 'me', version: 2 },
+        };
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+
+      const result = await runner.executeUserCode(userCode, {
+        args: [],
+        outputType: 'Plan',
+        argsTypes: [],
+        additionalSourceFiles: library,
+        validateOutput: true,
+      });
+
+      expect(result.unwrap().steps[0].children[0].duration).toBe(5);
+    });
+
+    it('should report the path to the value that does not match the output type', async () => {
+      const userCode = `
+      export default async function MyDSLFunction(): Promise<Plan> {
+        const steps = JSON.parse('[{ "name": "a", "kind": "command" }, { "name": "b", "kind": "wait", "children": [{ "name": 5, "kind": "wait" }] }]');
+        return { steps, metadata: {} };
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+
+      const result = await runner.executeUserCode(userCode, {
+        args: [],
+        outputType: 'Plan',
+        argsTypes: [],
+        additionalSourceFiles: library,
+        validateOutput: true,
+      });
+
+      const error = result.unwrapErr()[0] as UserCodeOutputError;
+      expect(error).toBeInstanceOf(UserCodeOutputError);
+      expect(error.category).toBe('output');
+      expect(error.path).toBe('$.steps[1].children[0].name');
+      expect(error.message).toBe(
+        'OutputError: Returned value does not match the output type at $.steps[1].children[0].name: expected string, but was 5',
+      );
+    });
+
+    it('should report values outside of a union of literals', async () => {
+      const userCode = `
+      export default function MyDSLFunction(): 'on' | 'off' {
+        // @ts-ignore
+        return 'maybe';
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+      const cacheItem = (await runner.preProcess(userCode, {
+        outputType: `'on' | 'off'`,
+        argsTypes: [],
+        validateOutput: true,
+      })).unwrap();
+
+      const result = await runner.executeUserCodeFromArtifacts(cacheItem, []);
+
+      expect(result.unwrapErr()[0].message).toBe(
+        'OutputError: Returned value does not match the output type at $: expected "on" | "off", but was "maybe"',
+      );
+    });
+
+    it('should check returned values that refer back to themselves', async () => {
+      const userCode = `
+      export default function MyDSLFunction(): Step {
+        const step: Step = { name: 'a', kind: 'command', children: [] };
+        step.children!.push(step, { name: 5, kind: 'wait' } as any);
+        return step;
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+
+      const result = await runner.executeUserCode(userCode, {
+        args: [],
+        outputType: 'Step',
+        argsTypes: [],
+        additionalSourceFiles: library,
+        validateOutput: true,
+      });
+
+      expect(result.unwrapErr()[0].message).toBe(
+        'OutputError: Returned value does not match the output type at $.children[1].name: expected string, but was 5',
+      );
+    });
+
+    it('should not run getters or proxies of returned values', async () => {
+      const userCode = `
+      export default function MyDSLFunction(kind: 'getter' | 'proxy'): Step {
+        const step = { kind: 'wait' as const, get name(): string { throw new Error('Getter ran'); } };
+        return kind === 'getter' ? step : new Proxy({ name: 'a', kind: 'wait' as const }, {
+          get() { throw new Error('Proxy trap ran'); },
+        });
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+      const cacheItem = (await runner.preProcess(userCode, {
+        outputType: 'Step',
+        argsTypes: [`'getter' | 'proxy'`],
+        additionalSourceFiles: library,
+        validateOutput: true,
+      })).unwrap();
+
+      const getterResult = await runner.executeUserCodeFromArtifacts(cacheItem, ['getter']);
+      expect(getterResult.unwrapErr()[0].message).toBe(
+        'OutputError: Returned value does not match the output type at $.name: expected string, but was getter',
+      );
+      const proxyResult = await runner.executeUserCodeFromArtifacts(cacheItem, ['proxy']);
+      expect(proxyResult.unwrapErr()[0].message).toBe(
+        'OutputError: Returned value does not match the output type at $: expected object, but was proxy',
+      );
+    });
+
+    it('should read methods of returned values from their prototypes', async () => {
+      const userCode = `
+      export default function MyDSLFunction(): { when: Date } {
+        return { when: new Date(0) };
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+
+      const result = await runner.executeUserCode(userCode, {
+        args: [],
+        outputType: '{ when: Date }',
+        argsTypes: [],
+        validateOutput: true,
+      });
+
+      expect(result.unwrap().when.getTime()).toBe(0);
+    });
+
+    it('should trust accessors that returned values inherit from their classes', async () => {
+      const userCode = `
+      class Span {
+        constructor(private readonly start: number, private readonly end: number) {}
+        get length(): number {
+          return this.end - this.start;
+        }
+      }
+      export default function MyDSLFunction(): { counts: Map<string, number>; tags: Set<string>; span: { length: number } } {
+        return { counts: new Map([['a', 1]]), tags: new Set(['b']), span: new Span(1, 3) };
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+
+      const result = await runner.executeUserCode(userCode, {
+        args: [],
+        outputType: '{ counts: Map<string, number>; tags: Set<string>; span: { length: number } }',
+        argsTypes: [],
+        validateOutput: true,
+      });
+
+      const value = result.unwrap();
+      expect(value.counts.get('a')).toBe(1);
+      expect(value.tags.has('b')).toBe(true);
+      expect(value.span.length).toBe(2);
+    });
+
+    it('should not check returned values unless asked to', async () => {
+      const userCode = `
+      export default function MyDSLFunction(): number {
+        return 'not a number' as any;
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+      const cacheItem = (await runner.preProcess(userCode, { outputType: 'number', argsTypes: [] })).unwrap();
+
+      const result = await runner.executeUserCodeFromArtifacts(cacheItem, []);
+
+      expect(cacheItem.outputSchema).toBeUndefined();
+      expect(result.unwrap()).toBe('not a number');
+    });
+  });
+
+  describe('argument validation', () => {
+    const userCode = `
+    declare global {
+      interface ActivityInstance {
+        id: number;
+        type: string;
+        arguments: { [name: string]: string | number | boolean };
+      }
+    }
+    export default function MyDSLFunction(instance: ActivityInstance, label: string): string {
+      return label + ' ' + instance.type;
+    }
+    `.trimTemplate();
+
+    async function compile(runner: UserCodeRunner) {
+      return (await runner.preProcess(userCode, {
+        outputType: 'string',
+        argsTypes: ['ActivityInstance', 'string'],
+        validateArgs: true,
+      })).unwrap();
+    }
+
+    it('should run the user code with arguments that match the args types', async () => {
+      const runner = new UserCodeRunner();
+
+      const result = await runner.executeUserCodeFromArtifacts(await compile(runner), [
+        { id: 1, type: 'Banana', arguments: { peel: true } },
+        'Peel',
+      ]);
+
+      expect(result.unwrap()).toBe('Peel Banana');
+    });
+
+    it('should blame the host for arguments that do not match the args types', async () => {
+      const runner = new UserCodeRunner();
+
+      const result = await runner.executeUserCodeFromArtifacts(await compile(runner), [
+        { id: '1', type: 'Banana', arguments: {} },
+        'Peel',
+      ]);
+
+      const error = result.unwrapErr()[0] as UserCodeArgumentError;
+      expect(error).toBeInstanceOf(UserCodeArgumentError);
+      expect(error.category).toBe('argument');
+      expect(error.path).toBe('$[0].id');
+      expect(error.message).toBe(
+        'ArgumentError: Host argument mismatch at $[0].id: expected number, but was "1". The arguments passed to the user code do not match its args types',
+      );
+    });
+
+    it('should blame the host for cyclic arguments that do not match recursive args types', async () => {
+      const recursiveUserCode = `
+      declare global {
+        interface Activity {
+          name: string;
+          parent: Activity | null;
+        }
+      }
+      export default function MyDSLFunction(activity: Activity): string {
+        return activity.name;
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+      const cacheItem = (await runner.preProcess(recursiveUserCode, {
+        outputType: 'string',
+        argsTypes: ['Activity'],
+        validateArgs: true,
+      })).unwrap();
+      const child: any = { name: 'child', parent: null };
+      child.parent = { name: 'parent', parent: child };
+
+      const result = await runner.executeUserCodeFromArtifacts(cacheItem, [child]);
+      expect(result.unwrap()).toBe('child');
+
+      child.parent.name = 1;
+      const mismatchResult = await runner.executeUserCodeFromArtifacts(cacheItem, [child]);
+      const error = mismatchResult.unwrapErr()[0] as UserCodeArgumentError;
+      expect(error).toBeInstanceOf(UserCodeArgumentError);
+      expect(error.path).toBe('$[0].parent.name');
+
+      const session = (await runner.createSession(cacheItem)).unwrap();
+      const sessionResult = await session.invoke([child]);
+      expect(sessionResult.unwrapErr()[0]).toBeInstanceOf(UserCodeArgumentError);
+    });
+
+    it('should blame the host for a wrong number of arguments', async () => {
+      const runner = new UserCodeRunner();
+
+      const result = await runner.executeUserCodeFromArtifacts(await compile(runner), [
+        { id: 1, type: 'Banana', arguments: {} },
+      ]);
+
+      expect(result.unwrapErr()[0].message).toBe(
+        'ArgumentError: Host argument mismatch at $: expected [object, string], but was array. The arguments passed to the user code do not match its args types',
+      );
+    });
+  });
+
+  describe('clone boundary', () => {
+    it('should copy args into the context and the result out of it', async () => {
+      const userCode = `
+      class Summary {
+        constructor(public readonly count: number) {}
+        get double(): number {
+          return this.count * 2;
+        }
+      }
+      export default function MyDSLFunction(things: { names: string[] }): { summary: Summary; when: Date } {
+        things.names.push('mutated');
+        return { summary: new Summary(things.names.length), when: new Date(0) };
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner({ cloneBoundary: true });
+      const things = { names: ['a', 'b'] };
+
+      const result = await runner.executeUserCode(userCode, {
+        args: [things],
+        outputType: '{ summary: { count: number }; when: Date }',
+        argsTypes: ['{ names: string[] }'],
+      });
+
+      const { summary, when } = result.unwrap();
+      expect(things.names).toEqual(['a', 'b']);
+      expect(Object.getPrototypeOf(summary)).toBe(Object.prototype);
+      expect(summary).toEqual({ count: 3 });
+      expect(when).toBeInstanceOf(Date);
+      expect(when.getTime()).toBe(0);
+    });
+
+    it('should refuse results that can not be transferred', async () => {
+      const userCode = `
+      export default function MyDSLFunction(): { steps: { run: () => void }[] } {
+        return { steps: [{ run: () => {} }] };
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner({ cloneBoundary: true });
+
+      const result = await runner.executeUserCode(userCode, {
+        args: [],
+        outputType: '{ steps: { run: () => void }[] }',
+        argsTypes: [],
+      });
+
+      const error = result.unwrapErr()[0] as UserCodeTransferError;
+      expect(error).toBeInstanceOf(UserCodeTransferError);
+      expect(error.category).toBe('transfer');
+      expect(error.message).toBe(
+        'TransferError: The result can not be copied out of the user code at $.steps[0].run, functions can not be transferred',
+      );
+    });
+
+    it('should refuse args with cycles', async () => {
+      const userCode = `
+      export default function MyDSLFunction(node: any): number {
+        return 1;
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner({ cloneBoundary: true });
+      const node: any = { children: [] };
+      node.children.push({ parent: node });
+
+      const result = await runner.executeUserCode(userCode, { args: [node], outputType: 'number', argsTypes: ['any'] });
+
+      expect(result.unwrapErr()[0].message).toBe(
+        'TransferError: The arguments can not be copied into the user code at $[0].children[0].parent, cycles can not be transferred, the value refers back to $[0]',
+      );
+    });
+  });
+
+  describe('console', () => {
+    it('should capture console output with its level and location in the user code', async () => {
+      const userCode = `
+      declare const console: { log(...args: any[]): void; warn(...args: any[]): void };
+      export default function MyDSLFunction(thing: string): string {
+        console.log('thing is', thing, { length: thing.length });
+        console.warn('about to return');
+        return thing;
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+      const userConsole = UserCodeConsole.new();
+      const before = Date.now();
+
+      const result = await runner.executeUserCode(userCode, {
+        args: ['hello'],
+        outputType: 'string',
+        argsTypes: ['string'],
+        console: userConsole,
+      });
+
+      expect(result.unwrap()).toBe('hello');
+      expect(userConsole.entries.map(({ timestamp, ...entry }) => entry)).toEqual([
+        { level: 'log', message: "thing is hello { length: 5 }", location: { line: 3, column: 10 } },
+        { level: 'warn', message: 'about to return', location: { line: 4, column: 10 } },
+      ]);
+      expect(userConsole.entries[0].timestamp).toBeGreaterThanOrEqual(before);
+    });
+
+    it('should keep console output of failed executions', async () => {
+      const userCode = `
+      declare const console: { error(...args: any[]): void };
+      export default function MyDSLFunction(): number {
+        console.error('giving up');
+        throw new Error('Gave up');
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+      const userConsole = UserCodeConsole.new();
+
+      const result = await runner.executeUserCode(userCode, {
+        args: [],
+        outputType: 'number',
+        argsTypes: [],
+        console: userConsole,
+      });
+
+      expect(result.unwrapErr()[0].message).toBe('Error: Gave up');
+      expect(userConsole.entries.map(entry => [entry.level, entry.message])).toEqual([['error', 'giving up']]);
+    });
+
+    it('should drop entries beyond the caps', async () => {
+      const userCode = `
+      declare const console: { debug(...args: any[]): void };
+      export default function MyDSLFunction(): number {
+        for (let i = 0; i < 10; i++) {
+          console.debug('entry ' + i);
+        }
+        return 1;
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+      const entryCapped = UserCodeConsole.new({ maxEntries: 3 });
+      const byteCapped = UserCodeConsole.new({ maxBytes: 16 });
+
+      await runner.executeUserCode(userCode, { args: [], outputType: 'number', argsTypes: [], console: entryCapped });
+      await runner.executeUserCode(userCode, { args: [], outputType: 'number', argsTypes: [], console: byteCapped });
+
+      expect(entryCapped.entries.map(entry => entry.message)).toEqual(['entry 0', 'entry 1', 'entry 2']);
+      expect(entryCapped.droppedEntries).toBe(7);
+      expect(byteCapped.entries.map(entry => entry.message)).toEqual(['entry 0', 'entry 1']);
+      expect(byteCapped.droppedEntries).toBe(8);
+    });
+
+    it('should locate console output logged deep inside library code', async () => {
+      const library = UserCodeRunner.createLibrary([
+        ts.createSourceFile('logging.ts', `
+        declare const console: { log(...args: any[]): void };
+        export function logDeep(depth: number, message: string): void {
+          if (depth === 0) {
+            console.log(message);
+            return;
+          }
+          logDeep(depth - 1, message);
+        }
+        `.trimTemplate(), ts.ScriptTarget.ESNext, true),
+      ]);
+      const userCode = `
+      import { logDeep } from 'logging';
+      export default function MyDSLFunction(thing: string): string {
+        logDeep(20, thing);
+        return thing;
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+      const userConsole = UserCodeConsole.new();
+      const cacheItem = (await runner.preProcess(userCode, {
+        outputType: 'string',
+        argsTypes: ['string'],
+        additionalSourceFiles: library,
+      })).unwrap();
+
+      const result = await runner.executeUserCodeFromArtifacts(cacheItem, ['hello'], undefined, undefined, undefined, userConsole);
+
+      expect(result.unwrap()).toBe('hello');
+      expect(userConsole.entries.map(({ timestamp, ...entry }) => entry)).toEqual([
+        { level: 'log', message: 'hello', location: { line: 3, column: 2 } },
+      ]);
+    });
+
+    it('should interleave the console output of a concurrent batch sharing a console', async () => {
+      const userCode = `
+      declare const console: { log(...args: any[]): void };
+      export default async function MyDSLFunction(thing: string): Promise<string> {
+        console.log(thing, 'started');
+        await Promise.resolve();
+        console.log(thing, 'finished');
+        return thing;
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+      const cacheItem = (await runner.preProcess(userCode, {
+        outputType: 'string',
+        argsTypes: ['string'],
+      })).unwrap();
+      const sharedConsole = UserCodeConsole.new();
+
+      const results = await runner.executeBatch(cacheItem, [['a'], ['b']], { concurrency: 2, console: sharedConsole });
+
+      expect(results.map(result => result.unwrap())).toEqual(['a', 'b']);
+      expect(sharedConsole.entries.map(entry => entry.message)).toEqual([
+        'a started',
+        'b started',
+        'a finished',
+        'b finished',
+      ]);
+    });
+
+    it('should not give the user code functions of the host through the console', async () => {
+      const userCode = `
+      declare const console: { log(...args: any[]): void };
+      export default function MyDSLFunction(): string {
+        // @ts-ignore
+        return console.log.constructor('return typeof process')();
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+
+      const result = await runner.executeUserCode(userCode, {
+        args: [],
+        outputType: 'string',
+        argsTypes: [],
+        console: UserCodeConsole.new(),
+      });
+
+      expect(result.unwrap()).toBe('undefined');
+    });
+  });
+
+  describe('globals presets', () => {
+    it('should run user code with frozen builtins and no code generation', async () => {
+      const userCode = `
+      class ExpansionError extends Error {
+        constructor(message: string) {
+          super(message);
+          this.name = 'ExpansionError';
+        }
+      }
+      export default function MyDSLFunction(): string[] {
+        const patched = (() => {
+          try {
+            Array.prototype.map = () => [];
+            return 'patched';
+          } catch (error) {
+            return (error as Error).name;
+          }
+        })();
+        const evaluated = (() => {
+          try {
+            return eval('1');
+          } catch (error) {
+            return (error as Error).name;
+          }
+        })();
+        return [patched, evaluated, new ExpansionError('failed').name, Object.keys(globalThis).join()];
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner({ globals: 'minimal' });
+
+      const result = await runner.executeUserCode(userCode, { args: [], outputType: 'string[]', argsTypes: [] });
+
+      expect(result.unwrap()).toEqual(['TypeError', 'EvalError', 'ExpansionError', '__args,__result']);
+    });
+
+    it('should type check the user code against the globals of the preset', async () => {
+      const userCode = `
+      export default function MyDSLFunction(text: string): number[] {
+        const copy = structuredClone({ bytes: new TextEncoder().encode(text) });
+        return Array.from(copy.bytes);
+      }
+      `.trimTemplate();
+
+      const minimalResult = await new UserCodeRunner({ globals: 'minimal' }).executeUserCode(userCode, {
+        args: ['é'],
+        outputType: 'number[]',
+        argsTypes: ['string'],
+      });
+      const pureResult = await new UserCodeRunner({ globals: 'pure-computation' }).executeUserCode(userCode, {
+        args: ['é'],
+        outputType: 'number[]',
+        argsTypes: ['string'],
+      });
+
+      expect(minimalResult.unwrapErr().map(error => error.message)).toEqual([
+        "TypeError: TS2304 Cannot find name 'structuredClone'.",
+        "TypeError: TS2304 Cannot find name 'TextEncoder'.",
+      ]);
+      expect(pureResult.unwrap()).toEqual([195, 169]);
+    });
+
+    it('should not declare builtins newer than the supported Node version to presets', async () => {
+      const userCode = `
+      export default function MyDSLFunction(values: number[]): number[] {
+        const groups = Object.groupBy(values, value => (value % 2 === 0 ? 'even' : 'odd'));
+        return [values.findLast(value => value % 2 === 0) ?? 0];
+      }
+      `.trimTemplate();
+
+      const result = await new UserCodeRunner({ globals: 'minimal' }).executeUserCode(userCode, {
+        args: [[2, 1]],
+        outputType: 'number[]',
+        argsTypes: ['number[]'],
+      });
+
+      const errors = result.unwrapErr();
+      expect(errors).toHaveLength(1);
+      expect(errors[0].message).toContain("Property 'groupBy' does not exist on type 'ObjectConstructor'.");
+    });
+
+    it('should decode UTF-8 like the TextDecoder of Node with the pure-computation preset', async () => {
+      const userCode = `
+      export default function MyDSLFunction(inputs: number[][]): string[][] {
+        return inputs.map(input => {
+          const bytes = new Uint8Array(input);
+          let fatal: string;
+          try {
+            fatal = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+          } catch (error) {
+            fatal = (error as Error).name;
+          }
+          return [new TextDecoder().decode(bytes), new TextDecoder('utf-8', { ignoreBOM: true }).decode(bytes.buffer), fatal];
+        });
+      }
+      `.trimTemplate();
+      const inputs = [
+        [],
+        [0xf0, 0x9f, 0x98, 0x80, 0xc3, 0xa9],
+        [0xef, 0xbb, 0xbf, 0x61],
+        [0xef, 0xbb, 0xbf, 0xef, 0xbb, 0xbf],
+        [0x61, 0xef, 0xbb, 0xbf],
+        [0xe2, 0x82],
+        [0xf0, 0x9f, 0x98],
+        [0xf0, 0x9f, 0x98, 0x61],
+        [0xc0, 0x80],
+        [0xe0, 0x80, 0xaf],
+        [0xed, 0xa0, 0x80],
+        [0xf4, 0x90, 0x80, 0x80],
+        [0x80, 0x61, 0xbf],
+        [0xe2, 0x28, 0xa1],
+        [0x61, 0xff, 0x62, 0xfe],
+      ];
+
+      const result = await new UserCodeRunner({ globals: 'pure-computation' }).executeUserCode(userCode, {
+        args: [inputs],
+        outputType: 'string[][]',
+        argsTypes: ['number[][]'],
+      });
+
+      const expected = inputs.map(input => {
+        const bytes = new Uint8Array(input);
+        let fatal: string;
+        try {
+          fatal = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+        } catch (error) {
+          fatal = (error as Error).name;
+        }
+        return [new TextDecoder().decode(bytes), new TextDecoder('utf-8', { ignoreBOM: true }).decode(bytes), fatal];
+      });
+      expect(result.unwrap()).toEqual(expected);
+    });
+
+    it('should encode UTF-8 like the TextEncoder of Node with the pure-computation preset', async () => {
+      const userCode = `
+      export default function MyDSLFunction(inputs: string[]): number[][] {
+        return inputs.flatMap(input => {
+          const destination = new Uint8Array(4);
+          const { read, written } = new TextEncoder().encodeInto(input, destination);
+          return [Array.from(new TextEncoder().encode(input)), [read, written, ...destination.subarray(0, written)]];
+        });
+      }
+      `.trimTemplate();
+      const inputs = ['', 'a', 'é€', '\u{1f600}', '\ud800', 'a\udc00b', '\ude00\ud83d', '€€', 'a\u{1f600}'];
+
+      const result = await new UserCodeRunner({ globals: 'pure-computation' }).executeUserCode(userCode, {
+        args: [inputs],
+        outputType: 'number[][]',
+        argsTypes: ['string[]'],
+      });
+
+      const expected = inputs.flatMap(input => {
+        const destination = new Uint8Array(4);
+        const { read, written } = new TextEncoder().encodeInto(input, destination);
+        return [Array.from(new TextEncoder().encode(input)), [read!, written!, ...destination.subarray(0, written)]];
+      });
+      expect(result.unwrap()).toEqual(expected);
+    });
+
+    it('should structured clone maps, errors, typed arrays and cycles with the pure-computation preset', async () => {
+      const userCode = `
+      export default function MyDSLFunction(): unknown[] {
+        const error = new RangeError('Out of range');
+        const bytes = new Uint16Array([1, 2, 3]);
+        const original: any = {
+          map: new Map<unknown, unknown>([['error', error], [bytes, new Set([1])]]),
+          when: new Date(0),
+          bytes,
+          view: bytes.subarray(1),
+        };
+        original.self = original;
+        const copy = structuredClone(original);
+        const copiedError = copy.map.get('error');
+        const [copiedKey, copiedSet] = [...copy.map.entries()][1];
+        const failures = [() => 1, Symbol('symbol'), { nested: [new WeakMap()] }].map(value => {
+          try {
+            structuredClone(value);
+            return 'cloned';
+          } catch (error) {
+            return (error as Error).name;
+          }
+        });
+        return [
+          copy !== original && copy.self === copy,
+          copiedError instanceof RangeError && copiedError !== error,
+          copiedError.name,
+          copiedError.message,
+          copiedKey === copy.bytes && copiedSet instanceof Set && copiedSet.has(1),
+          copy.when instanceof Date && copy.when !== original.when && copy.when.getTime(),
+          copy.bytes instanceof Uint16Array && copy.bytes.buffer !== bytes.buffer,
+          Array.from(copy.bytes),
+          copy.view instanceof Uint16Array && copy.view.buffer === copy.bytes.buffer,
+          Array.from(copy.view),
+          ...failures,
+        ];
+      }
+      `.trimTemplate();
+
+      const result = await new UserCodeRunner({ globals: 'pure-computation' }).executeUserCode(userCode, {
+        args: [],
+        outputType: 'unknown[]',
+        argsTypes: [],
+      });
+
+      expect(result.unwrap()).toEqual([
+        true,
+        true,
+        'RangeError',
+        'Out of range',
+        true,
+        0,
+        true,
+        [1, 2, 3],
+        true,
+        [2, 3],
+        'DataCloneError',
+        'DataCloneError',
+        'DataCloneError',
+      ]);
+    });
+
+    it('should run Temporal with the temporal preset', async () => {
+      const userCode = `
+      export default function MyDSLFunction(start: string): string {
+        const date: Temporal.PlainDate = Temporal.PlainDate.from(start);
+        return date.add({ months: 1 }).toString();
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner({ globals: 'temporal' });
+
+      const result = await runner.executeUserCode(userCode, {
+        args: ['2020-01-31'],
+        outputType: 'string',
+        argsTypes: ['string'],
+      });
+
+      expect(result.unwrap()).toBe('2020-02-29');
+    });
+
+    it('should refuse a context or lib that could disagree with the preset', async () => {
+      const runner = new UserCodeRunner({ globals: 'minimal' });
+
+      await expect(
+        runner.executeUserCode('export default () => 1', { args: [], argsTypes: [], context: vm.createContext() }),
+      ).rejects.toThrow('A context can not be provided for user code compiled with the "minimal" globals preset');
+      expect(() => new UserCodeRunner({ globals: 'minimal', compilerOptions: { lib: ['lib.es2022.d.ts'] } })).toThrow(
+        'Compiler option "lib" can not be combined with the "minimal" globals preset',
+      );
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should not compile when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const runner = new UserCodeRunner();
+
+      const result = await runner.preProcess('export default () => 1', 'number', [], [], controller.signal);
+
+      expect(result.isErr()).toBeTruthy();
+      expect(result.unwrapErr()[0]).toBeInstanceOf(UserCodeCancellationError);
+      expect(result.unwrapErr()[0].message).toBe('CancellationError: The compilation of user code was cancelled');
+    });
+
+    it('should stop compiling when the signal is aborted during compilation', async () => {
+      const controller = new AbortController();
+
+      const runner = new UserCodeRunner();
+
+      const pending = runner.preProcess('export default () => 1', 'number', [], [], controller.signal);
+      controller.abort();
+      const result = await pending;
+
+      expect(result.isErr()).toBeTruthy();
+      expect(result.unwrapErr()[0]).toBeInstanceOf(UserCodeCancellationError);
+    });
+
+    it('should stop waiting for user code when the signal is aborted', async () => {
+      const userCode = `
+      export default function MyDSLFunction(): Promise<string> {
+        return new Promise(() => {});
+      }
+      `.trimTemplate();
+
+      const runner = new UserCodeRunner();
+      const cacheItem = (await runner.preProcess(userCode, 'string', [])).unwrap();
+
+      const start = performance.now();
+      const result = await runner.executeUserCodeFromArtifacts(cacheItem, [], 5000, undefined, AbortSignal.timeout(100));
+
+      expect(performance.now() - start).toBeLessThan(2000);
+      expect(result.isErr()).toBeTruthy();
+      expect(result.unwrapErr()[0]).toBeInstanceOf(UserCodeCancellationError);
+      expect(result.unwrapErr()[0].message).toBe('CancellationError: The execution of user code was cancelled');
+    });
+  });
+
   describe('async user code', () => {
     it('should produce runtime errors', async () => {
       const userCode = `
@@ -0,0 +1,240 @@
+import { describe, it } from 'node:test';
+import { expect } from 'expect';
+import * as vm from 'vm';
+import { UserCodeConsole, UserCodeRunner, UserCodeRuntimeError, UserCodeTimeoutError } from '../src/UserCodeRunner';
+import { installStringUtils } from '../src/utils/stringUtils';
+installStringUtils();
+
+describe('UserCodeSession', () => {
+  it('should run the top level code once and share module state across invocations', async () => {
+    const userCode = `
+    const startedAt = Date.now();
+    let invocations = 0;
+    export default function MyDSLFunction(thing: string): string {
+      invocations++;
+      return thing + ' ' + invocations + (startedAt > 0 ? '' : '!');
+    }
+    `.trimTemplate();
+
+    const runner = new UserCodeRunner();
+    const cacheItem = (await runner.preProcess(userCode, { outputType: 'string', argsTypes: ['string'] })).unwrap();
+    const session = (await runner.createSession<[string], string>(cacheItem)).unwrap();
+
+    expect((await session.invoke(['a'])).unwrap()).toBe('a 1');
+    expect((await session.invoke(['b'])).unwrap()).toBe('b 2');
+    expect((await session.invoke(['c'])).unwrap()).toBe('c 3');
+  });
+
+  it('should time out a single invocation and keep serving the next ones', async () => {
+    const userCode = `
+    export default async function MyDSLFunction(loop: boolean): Promise<number> {
+      while (loop) {}
+      return 1;
+    }
+    `.trimTemplate();
+
+    const runner = new UserCodeRunner();
+    const cacheItem = (await runner.preProcess(userCode, { outputType: 'number', argsTypes: ['boolean'] })).unwrap();
+    const session = (await runner.createSession(cacheItem)).unwrap();
+
+    const timedOut = await session.invoke([true], { timeout: 50 });
+    expect(timedOut.unwrapErr()[0]).toBeInstanceOf(UserCodeTimeoutError);
+
+    expect((await session.invoke([false], { timeout: 50 })).unwrap()).toBe(1);
+  });
+
+  it('should map runtime errors of an invocation to the user code', async () => {
+    const userCode = `
+    export function validate(thing: string): boolean {
+      if (thing === '') {
+        throw new Error('Empty thing');
+      }
+      return true;
+    }
+    `.trimTemplate();
+
+    const runner = new UserCodeRunner();
+    const cacheItem = (
+      await runner.preProcess(userCode, { outputType: 'boolean', argsTypes: ['string'], exportName: 'validate' })
+    ).unwrap();
+    const session = (await runner.createSession(cacheItem)).unwrap();
+
+    expect((await session.invoke(['thing'])).unwrap()).toBe(true);
+    const error = (await session.invoke([''])).unwrapErr()[0];
+    expect(error.message).toBe('Error: Empty thing');
+    expect(error.stack).toBe('at validate(3:10)');
+  });
+
+  it('should check the result of every invocation against the output type', async () => {
+    const userCode = `
+    export default function MyDSLFunction(thing: string): { length: number } {
+      return JSON.parse(thing);
+    }
+    `.trimTemplate();
+
+    const runner = new UserCodeRunner();
+    const cacheItem = (
+      await runner.preProcess(userCode, { outputType: '{ length: number }', argsTypes: ['string'], validateOutput: true })
+    ).unwrap();
+    const session = (await runner.createSession(cacheItem)).unwrap();
+
+    expect((await session.invoke(['{ "length": 1 }'])).unwrap()).toEqual({ length: 1 });
+    expect((await session.invoke(['{ "length": "1" }'])).unwrapErr()[0].message).toBe(
+      'OutputError: Returned value does not match the output type at $.length: expected number, but was "1"',
+    );
+  });
+
+  it('should capture console output of the top level code and of every invocation', async () => {
+    const userCode = `
+    declare const console: { log(...args: any[]): void };
+    console.log('loaded');
+    export default function MyDSLFunction(thing: number): number {
+      console.log('invoked with', thing);
+      return thing;
+    }
+    `.trimTemplate();
+
+    const runner = new UserCodeRunner();
+    const userConsole = UserCodeConsole.new();
+    const cacheItem = (await runner.preProcess(userCode, { outputType: 'number', argsTypes: ['number'] })).unwrap();
+    const session = (await runner.createSession(cacheItem, { console: userConsole })).unwrap();
+
+    await session.invoke([1]);
+    await session.invoke([2]);
+
+    expect(userConsole.entries.map(entry => [entry.message, entry.location?.line])).toEqual([
+      ['loaded', 2],
+      ['invoked with 1', 4],
+      ['invoked with 2', 4],
+    ]);
+  });
+
+  it('should keep the frozen globals of the preset across invocations', async () => {
+    const userCode = `
+    export default function MyDSLFunction(): string {
+      const encoder = new TextEncoder();
+      try {
+        // @ts-ignore
+        TextEncoder.prototype.encode = () => new Uint8Array();
+      } catch {}
+      return Array.from(encoder.encode('ok')).join();
+    }
+    `.trimTemplate();
+
+    const runner = new UserCodeRunner({ globals: 'pure-computation' });
+    const cacheItem = (await runner.preProcess(userCode, { outputType: 'string', argsTypes: [] })).unwrap();
+    const session = (await runner.createSession(cacheItem)).unwrap();
+
+    expect((await session.invoke([])).unwrap()).toBe('111,107');
+    expect((await session.invoke([])).unwrap()).toBe('111,107');
+  });
+
+  it('should report errors of the top level code when the session is created', async () => {
+    const userCode = `
+    throw new Error('Top level error');
+    export default function MyDSLFunction(): number {
+      return 1;
+    }
+    `.trimTemplate();
+
+    const runner = new UserCodeRunner();
+    const cacheItem = (await runner.preProcess(userCode, { outputType: 'number', argsTypes: [] })).unwrap();
+
+    const session = await runner.createSession(cacheItem);
+
+    expect(session.unwrapErr()[0].message).toBe('Error: Top level error');
+  });
+});
+
+describe('executeBatch', () => {
+  it('should return a result per argument set and keep going after failures', async () => {
+    const userCode = `
+    let executions = 0;
+    export default function MyDSLFunction(thing: string): string {
+      executions++;
+      if (thing === '') {
+        throw new Error('Empty thing');
+      }
+      return thing + ' ' + executions;
+    }
+    `.trimTemplate();
+
+    const runner = new UserCodeRunner();
+    const cacheItem = (await runner.preProcess(userCode, { outputType: 'string', argsTypes: ['string'] })).unwrap();
+
+    const results = await runner.executeBatch<[string], string>(cacheItem, [['a'], [''], ['c']]);
+
+    expect(results[0].unwrap()).toBe('a 1');
+    expect(results[1].unwrapErr()[0].message).toBe('Error: Empty thing');
+    expect(results[2].unwrap()).toBe('c 3');
+  });
+
+  it('should keep going after an argument set that throws outside of the results', async () => {
+    const userCode = `
+    export default (thing: number) => {
+      if (thing === 2) {
+        throw 'bad input';
+      }
+      return thing * 2;
+    };
+    `.trimTemplate();
+
+    const runner = new UserCodeRunner();
+    const cacheItem = (await runner.preProcess(userCode, { outputType: 'number', argsTypes: ['number'] })).unwrap();
+
+    const results = await runner.executeBatch<[number], number>(cacheItem, [[1], [2], [3]]);
+
+    expect(results[0].unwrap()).toBe(2);
+    expect(results[1].unwrapErr()[0]).toBeInstanceOf(UserCodeRuntimeError);
+    expect(results[2].unwrap()).toBe(6);
+  });
+
+  it('should not execute more argument sets at the same time than the concurrency', async () => {
+    const userCode = `
+    declare function enter(): Promise<void>;
+    export default async function MyDSLFunction(thing: number): Promise<number> {
+      await enter();
+      return thing * 2;
+    }
+    `.trimTemplate();
+
+    let running = 0;
+    let maxRunning = 0;
+    const context = vm.createContext({
+      enter: async () => {
+        maxRunning = Math.max(maxRunning, ++running);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        running--;
+      },
+    });
+    const runner = new UserCodeRunner();
+    const cacheItem = (await runner.preProcess(userCode, { outputType: 'number', argsTypes: ['number'] })).unwrap();
+
+    const results = await runner.executeBatch<[number], number>(cacheItem, [[1], [2], [3], [4], [5], [6]], {
+      concurrency: 3,
+      context,
+    });
+
+    expect(results.map(result => result.unwrap())).toEqual([2, 4, 6, 8, 10, 12]);
+    expect(maxRunning).toBe(3);
+  });
+
+  it('should fail every argument set when the top level code fails', async () => {
+    const userCode = `
+    throw new Error('Top level error');
+    export default function MyDSLFunction(thing: number): number {
+      return thing;
+    }
+    `.trimTemplate();
+
+    const runner = new UserCodeRunner();
+    const cacheItem = (await runner.preProcess(userCode, { outputType: 'number', argsTypes: ['number'] })).unwrap();
+
+    const results = await runner.executeBatch(cacheItem, [[1], [2]]);
+
+    expect(results.map(result => result.unwrapErr()[0].message)).toEqual([
+      'Error: Top level error',
+      'Error: Top level error',
+    ]);
+  });
+});
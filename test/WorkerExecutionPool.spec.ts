@@ -0,0 +1,318 @@
+import { after, describe, it } from 'node:test';
+import { expect } from 'expect';
+import {
+  UserCodeCancellationError,
+  UserCodeConsole,
+  UserCodeResourceLimitError,
+  UserCodeRunner,
+  UserCodeRuntimeError,
+  UserCodeTimeoutError,
+  UserCodeTransferError,
+  WorkerExecutionPool,
+} from '../src/UserCodeRunner';
+import { installStringUtils } from '../src/utils/stringUtils';
+installStringUtils();
+
+describe('WorkerExecutionPool', () => {
+  const pool = new WorkerExecutionPool({ size: 1 });
+  const runner = new UserCodeRunner({ executionPool: pool });
+
+  after(() => pool.destroy());
+
+  it('should return the final value', async () => {
+    const userCode = `
+    export default async function MyDSLFunction(thing: string): Promise<string> {
+      return thing + ' world';
+    }
+    `.trimTemplate();
+
+    const result = await runner.executeUserCode(userCode, ['hello'], 'string', ['string']);
+
+    expect(result.isOk()).toBeTruthy();
+    expect(result.unwrap()).toBe('hello world');
+  });
+
+  it('should execute a batch in the workers', async () => {
+    const userCode = `
+    export default function MyDSLFunction(thing: number): number {
+      return thing * 2;
+    }
+    `.trimTemplate();
+    const cacheItem = (await runner.preProcess(userCode, { outputType: 'number', argsTypes: ['number'] })).unwrap();
+
+    const results = await runner.executeBatch<[number], number>(cacheItem, [[1], [2], [3]], { concurrency: 2 });
+
+    expect(results.map(result => result.unwrap())).toEqual([2, 4, 6]);
+  });
+
+  it('should fail only the argument sets of a batch that are rejected', async () => {
+    const batchPool = new WorkerExecutionPool({ size: 1 });
+    const batchRunner = new UserCodeRunner({ executionPool: batchPool });
+    const cacheItem = (
+      await batchRunner.preProcess('export default (thing: number) => thing * 2', { outputType: 'number', argsTypes: ['number'] })
+    ).unwrap();
+
+    // The second argument set waits for the only worker, and is rejected when the pool is destroyed
+    const pending = batchRunner.executeBatch<[number], number>(cacheItem, [[1], [2]], { concurrency: 2 });
+    await batchPool.destroy();
+    const results = await pending;
+
+    expect(results[0].unwrap()).toBe(2);
+    expect(results[1].isErr()).toBeTruthy();
+    expect(results[1].unwrapErr()[0]).toBeInstanceOf(UserCodeRuntimeError);
+    expect(results[1].unwrapErr()[0].message).toBe('Error: WorkerExecutionPool has been destroyed');
+  });
+
+  it('should return executions waiting when the pool is destroyed as runtime errors', async () => {
+    const destroyedPool = new WorkerExecutionPool({ size: 1 });
+    const destroyedRunner = new UserCodeRunner({ executionPool: destroyedPool });
+    const cacheItem = (
+      await destroyedRunner.preProcess('export default (thing: number) => thing * 2', { outputType: 'number', argsTypes: ['number'] })
+    ).unwrap();
+
+    const running = destroyedRunner.executeUserCodeFromArtifacts(cacheItem, [1]);
+    const waiting = destroyedRunner.executeUserCodeFromArtifacts(cacheItem, [2]);
+    await destroyedPool.destroy();
+
+    expect((await running).unwrap()).toBe(2);
+    const result = await waiting;
+    expect(result.unwrapErr()[0]).toBeInstanceOf(UserCodeRuntimeError);
+    expect(result.unwrapErr()[0].message).toBe('Error: WorkerExecutionPool has been destroyed');
+  });
+
+  it('should capture console output in the workers', async () => {
+    const userCode = `
+    declare const console: { log(...args: any[]): void };
+    export default function MyDSLFunction(thing: string): string {
+      console.log('got', thing);
+      return thing;
+    }
+    `.trimTemplate();
+    const userConsole = UserCodeConsole.new();
+
+    const result = await runner.executeUserCode(userCode, {
+      args: ['hello'],
+      outputType: 'string',
+      argsTypes: ['string'],
+      console: userConsole,
+    });
+
+    expect(result.unwrap()).toBe('hello');
+    expect(userConsole.entries.map(({ timestamp, ...entry }) => entry)).toEqual([
+      { level: 'log', message: 'got hello', location: { line: 3, column: 10 } },
+    ]);
+  });
+
+  it('should run user code with the globals it was compiled against', async () => {
+    const userCode = `
+    export default function MyDSLFunction(days: number): string {
+      return Temporal.PlainDate.from('2020-02-28').add({ days }).toString();
+    }
+    `.trimTemplate();
+    const temporalRunner = new UserCodeRunner({ executionPool: pool, globals: 'temporal' });
+
+    const result = await temporalRunner.executeUserCode(userCode, {
+      args: [2],
+      outputType: 'string',
+      argsTypes: ['number'],
+    });
+
+    expect(result.unwrap()).toBe('2020-03-01');
+  });
+
+  it('should produce source mapped runtime errors', async () => {
+    const userCode = `
+    export default function MyDSLFunction(thing: string): string {
+      subroutine();
+      return thing + ' world';
+    }
+
+    function subroutine() {
+      throw new Error('This is a test error');
+    }
+    `.trimTemplate();
+
+    const result = await runner.executeUserCode(userCode, ['hello'], 'string', ['string']);
+
+    expect(result.isErr()).toBeTruthy();
+    expect(result.unwrapErr()[0].message).toBe('Error: This is a test error');
+    expect(result.unwrapErr()[0].stack).toBe(`
+    at subroutine(7:8)
+    at MyDSLFunction(2:2)
+    `.trimTemplate());
+    expect(result.unwrapErr()[0].location).toMatchObject({
+      line: 7,
+      column: 8,
+    });
+  });
+
+  it('should return rejections nobody handles as runtime errors', async () => {
+    const userCode = `
+    export default function MyDSLFunction(): Promise<string> {
+      subroutine();
+      return new Promise(() => {});
+    }
+
+    async function subroutine() {
+      throw new Error('This is a test error');
+    }
+    `.trimTemplate();
+
+    const result = await runner.executeUserCode(userCode, [], 'string', []);
+
+    expect(result.isErr()).toBeTruthy();
+    expect(result.unwrapErr()[0]).toBeInstanceOf(UserCodeRuntimeError);
+    expect(result.unwrapErr()[0].message).toBe('Error: This is a test error');
+    expect(result.unwrapErr()[0].location).toMatchObject({
+      line: 7,
+      column: 8,
+    });
+
+    // The worker left behind by the uncaught error is replaced
+    const next = await runner.executeUserCode('export default () => 1', [], 'number', []);
+    expect(next.unwrap()).toBe(1);
+  });
+
+  it('should return values the worker can not copy to the host as transfer errors', async () => {
+    const functionResult = await runner.executeUserCode(
+      'export default function MyDSLFunction(): any { return () => 1; }',
+      [],
+      'any',
+      [],
+    );
+    const symbolResult = await runner.executeUserCode(
+      "export default function MyDSLFunction(): any { return { tag: Symbol('tag') }; }",
+      [],
+      'any',
+      [],
+    );
+    const thrownResult = await runner.executeUserCode(
+      'export default function MyDSLFunction(): any { throw () => 1; }',
+      [],
+      'any',
+      [],
+    );
+
+    expect(functionResult.unwrapErr()[0]).toBeInstanceOf(UserCodeTransferError);
+    expect(functionResult.unwrapErr()[0].message).toBe(
+      'TransferError: The result can not be copied out of the user code at $, () => 1 could not be cloned.',
+    );
+    expect(symbolResult.unwrapErr()[0]).toBeInstanceOf(UserCodeTransferError);
+    expect(thrownResult.unwrapErr()[0]).toBeInstanceOf(UserCodeRuntimeError);
+    expect(thrownResult.unwrapErr()[0].message).toBe(
+      'Error: The error thrown by the user code can not be copied out of the worker thread, () => 1 could not be cloned.',
+    );
+
+    // The worker is kept, nothing of the user code is left running
+    const next = await runner.executeUserCode('export default () => 1', [], 'number', []);
+    expect(next.unwrap()).toBe(1);
+  });
+
+  it('should terminate asynchronous user code that exceeds the timeout', async () => {
+    const userCode = `
+    export default async function MyDSLFunction(): Promise<string> {
+      await null;
+      while (true) {}
+    }
+    `.trimTemplate();
+
+    const result = await runner.executeUserCode(userCode, [], 'string', [], 200);
+
+    expect(result.isErr()).toBeTruthy();
+    expect(result.unwrapErr()[0]).toBeInstanceOf(UserCodeTimeoutError);
+    expect(result.unwrapErr()[0].message).toMatch(/^TimeoutError: Execution of user code exceeded the timeout of 200ms/);
+
+    // The terminated worker is replaced
+    const next = await runner.executeUserCode('export default () => 1', [], 'number', []);
+    expect(next.unwrap()).toBe(1);
+  });
+
+  it('should terminate user code when the signal is aborted', async () => {
+    const userCode = `
+    export default async function MyDSLFunction(): Promise<string> {
+      await null;
+      while (true) {}
+    }
+    `.trimTemplate();
+
+    const controller = new AbortController();
+    const pending = runner.executeUserCode(userCode, [], 'string', [], 5000, [], undefined, controller.signal);
+    setTimeout(() => controller.abort(), 500);
+    const result = await pending;
+
+    expect(result.isErr()).toBeTruthy();
+    expect(result.unwrapErr()[0]).toBeInstanceOf(UserCodeCancellationError);
+
+    const next = await runner.executeUserCode('export default () => 1', [], 'number', []);
+    expect(next.unwrap()).toBe(1);
+  });
+
+  it('should time out user code that never settles', async () => {
+    const userCode = `
+    export default function MyDSLFunction(): Promise<string> {
+      return new Promise(() => {});
+    }
+    `.trimTemplate();
+
+    const result = await runner.executeUserCode(userCode, [], 'string', [], 200);
+
+    expect(result.isErr()).toBeTruthy();
+    expect(result.unwrapErr()[0]).toBeInstanceOf(UserCodeTimeoutError);
+  });
+
+  it('should time out synchronous loops without losing the worker', async () => {
+    const result = await runner.executeUserCode('export default () => { while (true) {} }', [], 'void', [], 200);
+
+    expect(result.isErr()).toBeTruthy();
+    expect(result.unwrapErr()[0]).toBeInstanceOf(UserCodeTimeoutError);
+  });
+
+  it('should stop user code that exceeds the memory limit', async () => {
+    const userCode = `
+    export default function MyDSLFunction(): number {
+      const chunks: number[][] = [];
+      while (true) {
+        chunks.push(new Array(100_000).fill(chunks.length));
+      }
+    }
+    `.trimTemplate();
+
+    const cacheItem = (await runner.preProcess(userCode, 'number', [])).unwrap();
+    const result = await pool.execute(cacheItem, [], { timeout: 30_000, memoryLimitMb: 32 });
+
+    expect(result.isErr()).toBeTruthy();
+    expect(result.unwrapErr()[0]).toBeInstanceOf(UserCodeResourceLimitError);
+    expect(result.unwrapErr()[0].message).toBe(
+      'ResourceLimitError: Execution of user code exceeded the memory limit of 32MB',
+    );
+
+    // Workers without a memory limit are still available afterwards
+    const next = await pool.execute((await runner.preProcess('export default () => 1', 'number', [])).unwrap(), []);
+    expect(next.unwrap()).toBe(1);
+  });
+
+  it('should pass the memory limit of an execution from the runner to the pool', async () => {
+    const userCode = `
+    export default function MyDSLFunction(): number {
+      const chunks: number[][] = [];
+      while (true) {
+        chunks.push(new Array(100_000).fill(chunks.length));
+      }
+    }
+    `.trimTemplate();
+
+    const result = await runner.executeUserCode(userCode, {
+      args: [],
+      outputType: 'number',
+      argsTypes: [],
+      timeout: 30_000,
+      memoryLimitMb: 32,
+    });
+
+    expect(result.isErr()).toBeTruthy();
+    expect(result.unwrapErr()[0]).toBeInstanceOf(UserCodeResourceLimitError);
+    expect(result.unwrapErr()[0].message).toBe(
+      'ResourceLimitError: Execution of user code exceeded the memory limit of 32MB',
+    );
+  });
+});